@@ -1,11 +1,14 @@
 import './App.css';
 import NewPDFPolygonDrawer from './components/NewPDFCanvasViewer';
 
+// `?file=plans/level-2.pdf` opens that PDF instead of the bundled sample.
+const fileParam = new URLSearchParams(window.location.search).get('file') ?? undefined;
+
 function App() {
   return (
     <div style={{ padding: '20px' }}>
       <h2>📄 PDF Polygon Drawer</h2>
-      <NewPDFPolygonDrawer />
+      <NewPDFPolygonDrawer source={fileParam} />
     </div>
    
   );
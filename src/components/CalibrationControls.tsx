@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import { Calibration, calibrationFromLine, calibrationFromRatio, LengthUnit } from "../utils/measurement";
+
+interface CalibrationControlsProps {
+  calibration?: Calibration;
+  isMeasuring: boolean;
+  lineLength: number | null;
+  onStartLine: () => void;
+  onCancelLine: () => void;
+  onApply: (calibration: Calibration, allPages: boolean) => void;
+}
+
+const CalibrationControls: React.FC<CalibrationControlsProps> = ({
+  calibration,
+  isMeasuring,
+  lineLength,
+  onStartLine,
+  onCancelLine,
+  onApply,
+}) => {
+  const [realLength, setRealLength] = useState("");
+  const [ratio, setRatio] = useState("100");
+  const [unit, setUnit] = useState<LengthUnit>(calibration?.displayUnit ?? "m");
+  const [applyToAllPages, setApplyToAllPages] = useState(false);
+
+  const parsedLength = parseFloat(realLength);
+  const parsedRatio = parseFloat(ratio);
+
+  const applyLine = () => {
+    if (!lineLength || !(parsedLength > 0)) return;
+    onApply(calibrationFromLine(lineLength, parsedLength, unit), applyToAllPages);
+    setRealLength("");
+  };
+
+  const applyRatio = () => {
+    if (!(parsedRatio > 0)) return;
+    onApply(calibrationFromRatio(parsedRatio, unit), applyToAllPages);
+  };
+
+  return (
+    <div style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center", flexWrap: "wrap" }}>
+      <strong>Scale:</strong>
+      <span>{calibration ? `1 pt = ${(calibration.metersPerUnit * 1000).toFixed(3)} mm` : "not calibrated"}</span>
+      <select value={unit} onChange={(e) => setUnit(e.target.value as LengthUnit)}>
+        <option value="m">m / m²</option>
+        <option value="ft">ft / ft²</option>
+      </select>
+      {!isMeasuring && <button onClick={onStartLine}>Calibrate from Line</button>}
+      {isMeasuring && lineLength === null && (
+        <>
+          <span>Click both ends of a known dimension…</span>
+          <button onClick={onCancelLine}>Cancel</button>
+        </>
+      )}
+      {isMeasuring && lineLength !== null && (
+        <>
+          <label>
+            Real length{" "}
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={realLength}
+              onChange={(e) => setRealLength(e.target.value)}
+              style={{ width: "80px" }}
+              autoFocus
+            />{" "}
+            {unit}
+          </label>
+          <button onClick={applyLine} disabled={!(parsedLength > 0)}>Apply</button>
+          <button onClick={onCancelLine}>Cancel</button>
+        </>
+      )}
+      <label>
+        1 :{" "}
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={ratio}
+          onChange={(e) => setRatio(e.target.value)}
+          style={{ width: "70px" }}
+        />
+      </label>
+      <button onClick={applyRatio} disabled={!(parsedRatio > 0)}>Apply Ratio</button>
+      <label>
+        <input type="checkbox" checked={applyToAllPages} onChange={(e) => setApplyToAllPages(e.target.checked)} /> All pages
+      </label>
+    </div>
+  );
+};
+
+export default CalibrationControls;
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+
+// "polar" places the point at a length and angle from the last one.
+export type CoordinateMode = "absolute" | "relative" | "polar";
+
+interface CoordinateEntryProps {
+  unit: string;
+  canBeRelative: boolean;
+  disabled: boolean;
+  onAdd: (a: number, b: number, mode: CoordinateMode) => void;
+}
+
+const FIELD_LABELS: Record<CoordinateMode, [string, string]> = {
+  absolute: ["x", "y"],
+  relative: ["Δx", "Δy"],
+  polar: ["Length", "Angle°"],
+};
+
+// Places the next point by typing it instead of clicking; y grows upwards as in the PDF.
+// A polar point with no angle follows the direction the pointer last showed.
+const CoordinateEntry: React.FC<CoordinateEntryProps> = ({ unit, canBeRelative, disabled, onAdd }) => {
+  const [a, setA] = useState("");
+  const [b, setB] = useState("");
+  const [mode, setMode] = useState<CoordinateMode>("absolute");
+
+  const effectiveMode = canBeRelative ? mode : "absolute";
+  const parsedA = parseFloat(a);
+  const parsedB = parseFloat(b);
+  const isValid =
+    effectiveMode === "polar"
+      ? parsedA > 0 && (b.trim() === "" || Number.isFinite(parsedB))
+      : Number.isFinite(parsedA) && Number.isFinite(parsedB);
+  const [labelA, labelB] = FIELD_LABELS[effectiveMode];
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid || disabled) return;
+    onAdd(parsedA, parsedB, effectiveMode);
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      aria-label="Next point coordinates"
+      style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center" }}
+    >
+      <strong>Next point:</strong>
+      <select value={effectiveMode} onChange={(e) => setMode(e.target.value as CoordinateMode)} aria-label="Coordinate type">
+        <option value="absolute">From page origin</option>
+        <option value="relative" disabled={!canBeRelative}>
+          Relative to last point
+        </option>
+        <option value="polar" disabled={!canBeRelative}>
+          Length and angle
+        </option>
+      </select>
+      <label>
+        {labelA} <input type="number" step="any" value={a} onChange={(e) => setA(e.target.value)} style={{ width: "80px" }} />
+      </label>
+      <label>
+        {labelB}{" "}
+        <input
+          type="number"
+          step="any"
+          value={b}
+          placeholder={effectiveMode === "polar" ? "pointer" : undefined}
+          onChange={(e) => setB(e.target.value)}
+          style={{ width: "80px" }}
+        />
+      </label>
+      <span>{unit}</span>
+      <button type="submit" disabled={!isValid || disabled}>
+        Add Point
+      </button>
+    </form>
+  );
+};
+
+export default CoordinateEntry;
@@ -0,0 +1,60 @@
+import React, { useState } from "react";
+
+export type AngleReference = "page" | "segment";
+
+interface DrawingAidsControlsProps {
+  gridEnabled: boolean;
+  gridSpacing: number;
+  unit: string;
+  angleReference: AngleReference;
+  onGridEnabledChange: (enabled: boolean) => void;
+  onGridSpacingChange: (spacing: number) => void;
+  onAngleReferenceChange: (reference: AngleReference) => void;
+}
+
+const DrawingAidsControls: React.FC<DrawingAidsControlsProps> = ({
+  gridEnabled,
+  gridSpacing,
+  unit,
+  angleReference,
+  onGridEnabledChange,
+  onGridSpacingChange,
+  onAngleReferenceChange,
+}) => {
+  // Kept as typed, so the field can be cleared and retyped; only valid spacings are passed on.
+  const [spacingText, setSpacingText] = useState(String(gridSpacing));
+
+  return (
+    <div style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center" }}>
+      <strong>Aids:</strong>
+      <label>
+        <input type="checkbox" checked={gridEnabled} onChange={(e) => onGridEnabledChange(e.target.checked)} /> Snap to grid
+      </label>
+      <label>
+        every{" "}
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={spacingText}
+          onChange={(e) => {
+            setSpacingText(e.target.value);
+            const spacing = parseFloat(e.target.value);
+            if (spacing > 0) onGridSpacingChange(spacing);
+          }}
+          style={{ width: "70px" }}
+        />{" "}
+        {unit}
+      </label>
+      <label>
+        Shift locks to 45° steps from{" "}
+        <select value={angleReference} onChange={(e) => onAngleReferenceChange(e.target.value as AngleReference)}>
+          <option value="page">the page axes</option>
+          <option value="segment">the previous segment</option>
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default DrawingAidsControls;
@@ -0,0 +1,53 @@
+import React from "react";
+import { canFixIssue, fixLabel, GeometryIssue, ISSUE_LABELS } from "../utils/validation";
+
+interface GeometryIssuesPanelProps {
+  // Null until the first check has run.
+  issues: GeometryIssue[] | null;
+  activeKey: string | null;
+  disabled: boolean;
+  onCheck: () => void;
+  onSelect: (issue: GeometryIssue) => void;
+  onFix: (issue: GeometryIssue) => void;
+}
+
+const GeometryIssuesPanel: React.FC<GeometryIssuesPanelProps> = ({ issues, activeKey, disabled, onCheck, onSelect, onFix }) => (
+  <div style={{ width: "260px", padding: "10px", border: "1px solid #ddd", borderRadius: "8px" }}>
+    <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+      <h3 style={{ margin: 0, fontSize: "16px" }}>Geometry check</h3>
+      <button onClick={onCheck} disabled={disabled}>
+        Check All
+      </button>
+    </div>
+    {issues && issues.length === 0 && <div style={{ color: "#777", marginTop: "6px" }}>No issues found.</div>}
+    {issues && issues.length > 0 && (
+      <div role="list" aria-label="Geometry issues" style={{ marginTop: "6px", maxHeight: "25vh", overflowY: "auto" }}>
+        {issues.map((issue) => (
+          <div
+            key={issue.key}
+            role="listitem"
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+              padding: "3px 6px",
+              borderRadius: "4px",
+              background: issue.key === activeKey ? "#fdecea" : undefined,
+            }}
+          >
+            <button
+              onClick={() => onSelect(issue)}
+              style={{ flex: 1, border: "none", background: "none", font: "inherit", textAlign: "left", cursor: "pointer", padding: 0 }}
+            >
+              <strong>{ISSUE_LABELS[issue.kind]}</strong> <span style={{ color: "#777" }}>p. {issue.page}</span>
+              <div>{issue.message}</div>
+            </button>
+            {canFixIssue(issue) && <button onClick={() => onFix(issue)}>{fixLabel(issue)}</button>}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default GeometryIssuesPanel;
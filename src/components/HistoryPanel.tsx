@@ -0,0 +1,47 @@
+import React from "react";
+import { History } from "../utils/history";
+
+interface HistoryPanelProps {
+  history: History;
+  onJump: (position: number) => void;
+}
+
+// Position 0 is the starting state; position n is the state after the nth step.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump }) => {
+  const current = history.past.length;
+  const entries = [{ label: "Start", page: null as number | null }, ...history.past, ...history.future];
+
+  return (
+    <div
+      style={{
+        width: "260px",
+        padding: "10px",
+        border: "1px solid #ddd",
+        borderRadius: "8px",
+        maxHeight: "30vh",
+        overflowY: "auto",
+      }}
+    >
+      <h3 style={{ marginTop: 0, fontSize: "16px" }}>History</h3>
+      {entries.map((entry, position) => (
+        <div
+          key={position}
+          onClick={() => onJump(position)}
+          title={entry.page ? `Page ${entry.page}` : undefined}
+          style={{
+            padding: "3px 6px",
+            cursor: "pointer",
+            borderRadius: "4px",
+            background: position === current ? "#cfe3ef" : undefined,
+            fontWeight: position === current ? "bold" : "normal",
+            color: position > current ? "#999" : undefined,
+          }}
+        >
+          {entry.label}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryPanel;
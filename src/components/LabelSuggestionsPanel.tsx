@@ -0,0 +1,71 @@
+import React from "react";
+import { ZonesByPage } from "../types/zones";
+import { LabelSuggestion } from "../utils/textLabels";
+import { findZone, zoneLabel } from "../utils/zones";
+
+interface LabelSuggestionsPanelProps {
+  suggestions: LabelSuggestion[];
+  zonesByPage: ZonesByPage;
+  highlighted: string | null;
+  onHighlight: (zoneId: string | null) => void;
+  onAccept: (zoneIds: string[]) => void;
+  onReject: (zoneIds: string[]) => void;
+}
+
+const LabelSuggestionsPanel: React.FC<LabelSuggestionsPanelProps> = ({
+  suggestions,
+  zonesByPage,
+  highlighted,
+  onHighlight,
+  onAccept,
+  onReject,
+}) => {
+  const all = suggestions.map((suggestion) => suggestion.zoneId);
+
+  return (
+    <div style={{ padding: "0 10px 10px" }}>
+      <div style={{ display: "flex", gap: "10px", alignItems: "center", marginBottom: "6px" }}>
+        <strong>{suggestions.length} label suggestion(s) from the PDF text</strong>
+        <button onClick={() => onAccept(all)}>Accept All</button>
+        <button onClick={() => onReject(all)}>Reject All</button>
+      </div>
+      <div role="list" style={{ display: "flex", gap: "6px", flexWrap: "wrap", maxHeight: "120px", overflowY: "auto" }}>
+        {suggestions.map((suggestion) => {
+          const zone = findZone(zonesByPage, suggestion.zoneId)?.zone;
+          const proposed = [suggestion.number ?? zone?.number, suggestion.name ?? zone?.name].filter(Boolean).join(" ");
+          return (
+            <div
+              key={suggestion.zoneId}
+              role="listitem"
+              onMouseEnter={() => onHighlight(suggestion.zoneId)}
+              onMouseLeave={() => onHighlight(null)}
+              style={{
+                padding: "4px 6px",
+                border: highlighted === suggestion.zoneId ? "2px solid orange" : "1px solid #ddd",
+                borderRadius: "5px",
+                display: "flex",
+                gap: "4px",
+                alignItems: "center",
+              }}
+            >
+              <span>
+                <span style={{ color: "#777" }}>
+                  p. {suggestion.page} · {zone ? zoneLabel(zone) : "zone"} →
+                </span>{" "}
+                {proposed}
+              </span>
+              <button onClick={() => onAccept([suggestion.zoneId])} title="Accept" aria-label={`Accept ${proposed}`}>
+                ✓
+              </button>
+              <button onClick={() => onReject([suggestion.zoneId])} title="Reject" aria-label={`Reject ${proposed}`}>
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LabelSuggestionsPanel;
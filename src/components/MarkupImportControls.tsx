@@ -0,0 +1,34 @@
+import React, { useState } from "react";
+import { MARKUP_TYPES, MarkupType } from "../utils/pdfAnnotations";
+
+interface MarkupImportControlsProps {
+  disabled: boolean;
+  isImporting: boolean;
+  status: string | null;
+  onImport: (types: MarkupType[]) => void;
+}
+
+const MarkupImportControls: React.FC<MarkupImportControlsProps> = ({ disabled, isImporting, status, onImport }) => {
+  const [types, setTypes] = useState<MarkupType[]>(["Polygon", "PolyLine", "Square"]);
+
+  const toggleType = (type: MarkupType, checked: boolean) =>
+    setTypes(checked ? [...types, type] : types.filter((t) => t !== type));
+
+  return (
+    <div style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center", flexWrap: "wrap" }}>
+      <strong>PDF markups:</strong>
+      {MARKUP_TYPES.map(({ value, label }) => (
+        <label key={value}>
+          <input type="checkbox" checked={types.includes(value)} onChange={(e) => toggleType(value, e.target.checked)} />{" "}
+          {label}
+        </label>
+      ))}
+      <button onClick={() => onImport(types)} disabled={disabled || isImporting || types.length === 0}>
+        {isImporting ? "Importing…" : "Import Markups"}
+      </button>
+      {status && <span style={{ color: "#777" }}>{status}</span>}
+    </div>
+  );
+};
+
+export default MarkupImportControls;
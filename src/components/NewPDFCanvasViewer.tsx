@@ -1,71 +1,765 @@
-import React, { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useCallback, useImperativeHandle, useMemo, useState } from "react";
 import { pdfjs } from "react-pdf";
-import { polygon as turfPolygon } from "@turf/helpers";
-import difference from "@turf/difference";
-import { Feature, Polygon as TurfPolygon } from "geojson";
-import booleanIntersects from "@turf/boolean-intersects";
-import booleanContains from "@turf/boolean-contains";
+import PageNavigator from "./PageNavigator";
+import CalibrationControls from "./CalibrationControls";
+import ZoneInspector, { ZonePatch } from "./ZoneInspector";
+import ZoneSearch from "./ZoneSearch";
+import GeometryIssuesPanel from "./GeometryIssuesPanel";
+import HistoryPanel from "./HistoryPanel";
+import PasswordPrompt from "./PasswordPrompt";
+import RecentProjectsPanel from "./RecentProjectsPanel";
+import LabelSuggestionsPanel from "./LabelSuggestionsPanel";
+import RoomCandidatesPanel from "./RoomCandidatesPanel";
+import MarkupImportControls from "./MarkupImportControls";
+import ShortcutHelp from "./ShortcutHelp";
+import CoordinateEntry, { CoordinateMode } from "./CoordinateEntry";
+import DrawingAidsControls, { AngleReference } from "./DrawingAidsControls";
+import { Point, PolygonRings, ShapeType, Zone, ZoneShape, ZonesByPage } from "../types/zones";
+import { featureCollectionToZones, ZoneFeatureCollection, zonesToFeatureCollection } from "../utils/geojson";
+import { downloadBlob } from "../utils/download";
+import { exportAnnotatedPdf, PDF_EXPORT_MODES, PdfExportMode } from "../utils/pdfExport";
+import { importMarkupZones, MarkupType } from "../utils/pdfAnnotations";
+import { zoneSchedule } from "../utils/schedule";
+import { zonesToSvg } from "../utils/svgExport";
+import {
+  distance,
+  interiorPoint,
+  largestPart,
+  pointInPolygons,
+  ringCentroid,
+  ringsToViewport,
+  toPdfPoint,
+  toTurfGeometry,
+  toTurfPolygon,
+  toViewportPoint,
+  validatePolygons,
+  ViewportLike,
+} from "../utils/geometry";
+import {
+  Calibration,
+  CalibrationByPage,
+  formatArea,
+  formatLength,
+  measureLength,
+  toPdfLength,
+  zoneArea,
+} from "../utils/measurement";
+import {
+  constrainAngle,
+  findSnap,
+  pointAlong,
+  projectOntoLine,
+  Segment,
+  segmentAngle,
+  SnapKind,
+  SnapResult,
+  snapToGrid,
+  zoneSegments,
+  zoneVertices,
+} from "../utils/snapping";
+import { extractPageSegments } from "../utils/pdfVectors";
+import { detectRooms } from "../utils/roomDetection";
+import { extractPageText, LabelSuggestion, suggestZoneLabels } from "../utils/textLabels";
+import { DUPLICATE_TOLERANCE, fixIssue, fixLabel, GeometryIssue, validatePageZones, validateZones } from "../utils/validation";
+import { applyZoneOperation, carveFromOthers, OperationResult, ZONE_OPERATIONS, ZoneOperation } from "../utils/booleanOps";
+import { findShapeCorner, rectFromCorners, resizeShape, shapeCorners, shapeRing, SHAPE_TYPES } from "../utils/shapes";
+import {
+  categoryLabel,
+  createZone,
+  findZone,
+  hexToRgba,
+  nextZoneName,
+  withGeometry,
+  zoneColor,
+  zoneAtPoint,
+  zoneLabel,
+  zoneTitle,
+} from "../utils/zones";
+import { createCommand, EditorState, EMPTY_HISTORY, History, pushCommand, travelTo } from "../utils/history";
+import {
+  clearSessions,
+  deleteSession,
+  documentFingerprint,
+  listSessions,
+  loadDocument,
+  loadSession,
+  saveDocument,
+  saveSession,
+  SessionSummary,
+  StoredSession,
+} from "../utils/sessionStore";
+import {
+  deleteVertex,
+  editablePolygons,
+  findMidpoint,
+  findVertex,
+  insertVertex,
+  midpoints,
+  moveVertex,
+  VertexRef,
+} from "../utils/vertexEditing";
 
-pdfjs.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.mjs";
+const DEFAULT_WORKER_SRC = "/pdf.worker.min.mjs";
+pdfjs.GlobalWorkerOptions.workerSrc = DEFAULT_WORKER_SRC;
 
-interface Point {
+// "view" only selects zones, so looking at a plan can't add points by accident.
+type EditorMode = "draw" | "calibrate" | "edit" | "view";
+
+const MODE_LABELS: Record<EditorMode, string> = {
+  draw: "Drawing",
+  calibrate: "Calibrating",
+  edit: "Editing vertices",
+  view: "Viewing",
+};
+
+const MODE_KEYS: Record<string, EditorMode> = { d: "draw", e: "edit", v: "view" };
+
+type DocumentSource = { name: string } & ({ url: string } | { data: Uint8Array });
+
+/** A PDF to open: a URL, a picked or dropped File, or the raw bytes. */
+export type PdfSource = string | File | Blob | ArrayBuffer | Uint8Array;
+
+export interface PDFPolygonDrawerStyles {
+  root?: React.CSSProperties;
+  toolbar?: React.CSSProperties;
+  canvas?: React.CSSProperties;
+  sidebar?: React.CSSProperties;
+}
+
+export interface PDFPolygonDrawerProps {
+  // Defaults to the bundled sample plan.
+  source?: PdfSource;
+  // Name used for autosave and downloads when the source doesn't carry one.
+  fileName?: string;
+  workerSrc?: string;
+  // Zones to start from; they replace any autosaved session for the document.
+  initialZones?: ZonesByPage;
+  onZonesChange?: (zonesByPage: ZonesByPage) => void;
+  onZoneSelect?: (zone: Zone | null, page: number) => void;
+  // Zones can be viewed, selected and exported but not changed.
+  readOnly?: boolean;
+  className?: string;
+  styles?: PDFPolygonDrawerStyles;
+  ref?: React.Ref<PDFPolygonDrawerHandle>;
+}
+
+/** Lets a host page drive the editor from its own controls. */
+export interface PDFPolygonDrawerHandle {
+  getZones: () => ZonesByPage;
+  // Replaces every page's zones as one undoable step.
+  setZones: (zonesByPage: ZonesByPage) => void;
+  fitToZone: (id: string) => Promise<void>;
+  exportGeoJSON: () => ZoneFeatureCollection;
+}
+
+// Polygons are clicked vertex by vertex; shapes are placed by two opposite corners.
+type DrawTool = "polygon" | ShapeType;
+
+// The shortcuts that still apply when the editor is read-only.
+const VIEW_KEYS = ["?", "/", "Escape", "[", "]", "PageUp", "PageDown", "+", "=", "-", "0"];
+
+const TOOL_KEYS: Record<string, DrawTool> = { p: "polygon", r: "rectangle", o: "circle", t: "triangle" };
+
+type ExportFormat = "geojson" | "csv" | "tsv" | "png" | "svg";
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "geojson", label: "Zones (GeoJSON)" },
+  { value: "csv", label: "Schedule (CSV)" },
+  { value: "tsv", label: "Schedule (TSV)" },
+  { value: "png", label: "Page image (PNG)" },
+  { value: "svg", label: "Page zones (SVG)" },
+];
+
+const ENCRYPTED_SAVE_MESSAGE = "Encrypted PDFs can't be saved with zones. Export them as GeoJSON, SVG or PNG instead.";
+
+interface PanState {
+  startX: number;
+  startY: number;
+  scrollLeft: number;
+  scrollTop: number;
+  moved: boolean;
+}
+
+interface VertexDrag {
+  zoneId: string;
+  vertex: VertexRef;
+  polygons: PolygonRings[];
+  moved: boolean;
+  inserted: boolean;
+}
+
+interface ShapeDrag {
+  zoneId: string;
+  corner: number;
+  shape: ZoneShape;
+  moved: boolean;
+}
+
+interface EditPreview {
+  zoneId: string;
+  polygons: PolygonRings[];
+  shape?: ZoneShape;
+}
+
+interface ZoomAnchor {
+  pdfPoint: Point;
+  offsetX: number;
+  offsetY: number;
+}
+
+// The PDF point between the two fingers stays under them while they pinch and move.
+interface PinchState {
+  distance: number;
+  scale: number;
+  anchor: Point;
+}
+
+interface HoverPoint {
+  raw: Point;
+  snapped: Point;
+}
+
+interface LongPress {
+  timer: ReturnType<typeof setTimeout>;
   x: number;
   y: number;
 }
 
+// Thresholds are in screen pixels and converted to PDF units at the current zoom.
 const SNAP_THRESHOLD = 10;
+const CLOSE_THRESHOLD = 10;
+const PAN_THRESHOLD = 4;
+const HANDLE_RADIUS = 6;
+// Fingers and pens are less precise than a mouse, so their hit targets grow by this factor.
+const TOUCH_TARGET_FACTOR = 2;
+const LONG_PRESS_MS = 600;
+// Smallest suggested room: 1 m² once calibrated, otherwise a share of the sheet.
+const MIN_ROOM_AREA_M2 = 1;
+const MIN_ROOM_PAGE_FRACTION = 0.0005;
+const SNAP_INDICATOR_SIZE = 12;
+// Arrow keys nudge by this many screen pixels, ten times as far with Shift.
+const NUDGE_STEP = 1;
+const SNAP_COLORS: Record<SnapKind, string> = {
+  vertex: "#e91e63",
+  perpendicular: "#2e7d32",
+  edge: "#ff9800",
+  grid: "#607d8b",
+  angle: "#4682B4",
+};
+// Grid lines closer together than this on screen aren't drawn (they still snap).
+const MIN_GRID_PIXELS = 6;
+const DEFAULT_GRID_SPACING = 10;
+const DEFAULT_SCALE = 1.5;
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 8;
+const ZOOM_STEP = 1.2;
+
+const clampScale = (value: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, value));
+const AUTOSAVE_DELAY = 1000;
+// Read by screen readers but not shown.
+const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: "absolute",
+  width: "1px",
+  height: "1px",
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+};
+const SAMPLE_PDF: DocumentSource = { name: "Sample Floor Plan (PDF).pdf", url: "Sample Floor Plan (PDF).pdf" };
+// Share of the view a fitted zone fills.
+const FIT_FILL = 0.8;
+
+const urlFileName = (url: string) => {
+  const last = url.split(/[?#]/)[0].split("/").pop() || "document.pdf";
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+};
+
+const toDocumentSource = async (source: PdfSource, fileName?: string): Promise<DocumentSource> => {
+  if (typeof source === "string") return { name: fileName ?? urlFileName(source), url: source };
+  if (source instanceof Blob) {
+    const name = fileName ?? (source instanceof File ? source.name : "document.pdf");
+    return { name, data: new Uint8Array(await source.arrayBuffer()) };
+  }
+  // pdf.js takes over the buffer it is given, so the caller's bytes are copied rather than detached.
+  return { name: fileName ?? "document.pdf", data: new Uint8Array(source.slice(0)) };
+};
+
+const isPdfFile = (file: File) => file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+
+// pdf.js tells load failures apart by exception name; anything else is shown with its own message.
+const describeLoadError = (err: unknown, name: string) => {
+  const error = err as { name?: string; message?: string; status?: number; missing?: boolean };
+  switch (error.name) {
+    case "InvalidPDFException":
+      return `${name} is not a PDF or is damaged.`;
+    case "ResponseException":
+      return error.missing ? `${name} could not be found.` : `${name} could not be downloaded (HTTP ${error.status}).`;
+    case "PasswordException":
+      return `${name} is password-protected and was not opened.`;
+    default:
+      return `Could not open ${name}: ${error.message ?? String(err)}`;
+  }
+};
 
-const NewPDFPolygonDrawer: React.FC = () => {
+interface LoadProgress {
+  loaded: number;
+  // 0 when the server doesn't send a length.
+  total: number;
+}
+
+interface PasswordRequest {
+  incorrect: boolean;
+  submit: (password: string) => void;
+}
+
+const NewPDFPolygonDrawer: React.FC<PDFPolygonDrawerProps> = ({
+  source,
+  fileName,
+  workerSrc,
+  initialZones,
+  onZonesChange,
+  onZoneSelect,
+  readOnly = false,
+  className,
+  styles,
+  ref,
+}) => {
+  // The page raster is only redrawn per page and zoom; zones and previews go on the overlay above it.
+  const pdfCanvasRef = useRef<HTMLCanvasElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const openInputRef = useRef<HTMLInputElement>(null);
+  // The document being loaded, so a password prompt can be cancelled.
+  const loadingTaskRef = useRef<any>(null);
   const renderTaskRef = useRef<any>(null);
+  const rasterTokenRef = useRef(0);
+  const overlayFrameRef = useRef<number | null>(null);
+  // Pointer position over the page, kept out of state so hovering only redraws the overlay.
+  const hoverRef = useRef<HoverPoint | null>(null);
+  // On-screen direction of the last rubber-band segment, in radians counterclockwise; typed lengths follow it.
+  const lastDirectionRef = useRef<number | null>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const viewportRef = useRef<ViewportLike | null>(null);
+  const panRef = useRef<PanState | null>(null);
+  const zoomAnchorRef = useRef<ZoomAnchor | null>(null);
+  const vertexDragRef = useRef<VertexDrag | null>(null);
+  const shapeDragRef = useRef<ShapeDrag | null>(null);
+  // Pressed pointers by id, in client coordinates; two of them make a pinch.
+  const pointersRef = useRef(new Map<number, Point>());
+  const pointerTypeRef = useRef("mouse");
+  const pinchRef = useRef<PinchState | null>(null);
+  const longPressRef = useRef<LongPress | null>(null);
+  // Set once a press has become a pinch or a long-press, so lifting it isn't also a tap.
+  const gestureRef = useRef(false);
+  const documentStoredRef = useRef(false);
+  const autoRestoreRef = useRef<string | null>(null);
+  // Read by effects that should re-run for a new document only, not whenever these props change.
+  const initialZonesRef = useRef(initialZones);
+  const readOnlyRef = useRef(readOnly);
+  const reportedZonesRef = useRef<ZonesByPage | null>(null);
+  const reportedSelectionRef = useRef<string | null>(null);
+  const [documentSource, setDocumentSource] = useState<DocumentSource | null>(source === undefined ? SAMPLE_PDF : null);
   const [pdfDoc, setPdfDoc] = useState<any>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [scale, setScale] = useState(DEFAULT_SCALE);
+  const [isPanning, setIsPanning] = useState(false);
   const [currentPolygon, setCurrentPolygon] = useState<Point[]>([]);
-  const [zones, setZones] = useState<Point[][][]>([]);
-  const [history, setHistory] = useState<Point[][][][]>([]);
-  const [redoStack, setRedoStack] = useState<Point[][][][]>([]);
+  const [zonesByPage, setZonesByPage] = useState<ZonesByPage>(initialZones ?? {});
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("geojson");
+  const [pdfExportMode, setPdfExportMode] = useState<PdfExportMode>("annotations");
+  const [isSavingPdf, setIsSavingPdf] = useState(false);
+  // pdf-lib can't decrypt, so Save PDF is off for encrypted documents.
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  const [isImportingMarkups, setIsImportingMarkups] = useState(false);
+  const [markupStatus, setMarkupStatus] = useState<string | null>(null);
+  const [mode, setMode] = useState<EditorMode>(readOnly ? "view" : "draw");
+  const [calibrationLine, setCalibrationLine] = useState<Point[]>([]);
+  const [calibrations, setCalibrations] = useState<CalibrationByPage>({});
+  const [pdfSegments, setPdfSegments] = useState<Segment[]>([]);
+  const [snapToPdf, setSnapToPdf] = useState(true);
+  const [snapIndicator, setSnapIndicator] = useState<SnapResult | null>(null);
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+  const [selectedVertex, setSelectedVertex] = useState<VertexRef | null>(null);
+  const [editPreview, setEditPreview] = useState<EditPreview | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [roomCandidates, setRoomCandidates] = useState<PolygonRings[]>([]);
+  const [highlightedCandidate, setHighlightedCandidate] = useState<number | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [labelSuggestions, setLabelSuggestions] = useState<LabelSuggestion[]>([]);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState<string | null>(null);
+  const [isLabelling, setIsLabelling] = useState(false);
+  const [labelStatus, setLabelStatus] = useState<string | null>(null);
+  const [geometryIssues, setGeometryIssues] = useState<GeometryIssue[] | null>(null);
+  const [activeIssueKey, setActiveIssueKey] = useState<string | null>(null);
+  const [operation, setOperation] = useState<ZoneOperation>("new");
+  const [drawTool, setDrawTool] = useState<DrawTool>("polygon");
+  const [pendingOperation, setPendingOperation] = useState<OperationResult | null>(null);
+  // Autosave stays off until the stored session for this document has been restored or declined.
+  const [sessionKey, setSessionKey] = useState<string | null>(null);
+  const [restorePrompt, setRestorePrompt] = useState<StoredSession | null>(null);
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [recentVersion, setRecentVersion] = useState(0);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [hoveredZoneId, setHoveredZoneId] = useState<string | null>(null);
+  const [gridEnabled, setGridEnabled] = useState(false);
+  const [gridSpacing, setGridSpacing] = useState(DEFAULT_GRID_SPACING);
+  const [angleReference, setAngleReference] = useState<AngleReference>("page");
+  const [coarsePointer] = useState(() => window.matchMedia?.("(pointer: coarse)").matches ?? false);
+  // Spoken by screen readers after each edit or keyboard selection.
+  const [announcement, setAnnouncement] = useState("");
+
+  const zones = zonesByPage[currentPage] ?? [];
+  const numPages = pdfDoc?.numPages ?? 0;
+  const calibration: Calibration | undefined = calibrations[currentPage];
+  const selectedZone = zones.find((zone) => zone.id === selectedZoneId);
+  const handleRadius = coarsePointer ? HANDLE_RADIUS * TOUCH_TARGET_FACTOR : HANDLE_RADIUS;
+  const pdfCorners = useMemo(() => pdfSegments.flatMap(({ a, b }) => [a, b]), [pdfSegments]);
 
   useEffect(() => {
-    const loadPDF = async () => {
-      const loadingTask = pdfjs.getDocument("Sample Floor Plan (PDF).pdf");
-      const pdf = await loadingTask.promise;
-      setPdfDoc(pdf);
-      await renderPDFPage(pdf, [], []);
+    initialZonesRef.current = initialZones;
+    readOnlyRef.current = readOnly;
+  });
+
+  // Everything tied to the previous document is dropped before another one loads.
+  const resetDocumentState = useCallback((startZones: ZonesByPage = {}) => {
+    setPdfDoc(null);
+    setZonesByPage(startZones);
+    setHistory(EMPTY_HISTORY);
+    setCalibrations({});
+    setCurrentPage(1);
+    setCurrentPolygon([]);
+    setCalibrationLine([]);
+    setSelectedZoneId(null);
+    setSelectedVertex(null);
+    setRoomCandidates([]);
+    setLabelSuggestions([]);
+    setLabelStatus(null);
+    setGeometryIssues(null);
+    setActiveIssueKey(null);
+    setPendingOperation(null);
+    setEditError(null);
+    setLastSavedAt(null);
+  }, []);
+
+  useEffect(() => {
+    if (source === undefined) return;
+    let cancelled = false;
+    toDocumentSource(source, fileName)
+      .then((next) => {
+        if (cancelled) return;
+        resetDocumentState(initialZonesRef.current);
+        setDocumentSource(next);
+      })
+      .catch((err: unknown) => {
+        console.error("PDF source error:", err);
+        if (!cancelled) setFileError(`Could not read the PDF: ${(err as Error).message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, fileName, resetDocumentState]);
+
+  useEffect(() => {
+    if (!documentSource) return;
+    let cancelled = false;
+    if (workerSrc) pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+    // pdf.js detaches the bytes it is given, so each load gets its own copy and a re-run can read them again.
+    const loadingTask = pdfjs.getDocument("data" in documentSource ? { data: documentSource.data.slice() } : documentSource.url);
+    loadingTaskRef.current = loadingTask;
+    setFileError(null);
+    setIsEncrypted(false);
+    setLoadProgress({ loaded: 0, total: 0 });
+    loadingTask.onProgress = ({ loaded, total }: LoadProgress) => {
+      if (!cancelled) setLoadProgress({ loaded, total: total || 0 });
+    };
+    loadingTask.onPassword = (submit: (password: string) => void, reason: number) => {
+      if (!cancelled) setPasswordRequest({ incorrect: reason === pdfjs.PasswordResponses.INCORRECT_PASSWORD, submit });
     };
-    loadPDF();
+    loadingTask.promise
+      .then((pdf: any) => {
+        if (cancelled) return;
+        setPdfDoc(pdf);
+        pdf
+          .getMetadata()
+          .then(({ info }: { info: { EncryptFilterName?: string | null } }) => {
+            if (!cancelled) setIsEncrypted(!!info.EncryptFilterName);
+          })
+          .catch((err: unknown) => console.error("PDF metadata error:", err));
+      })
+      .catch((err: unknown) => {
+        // A destroyed task was cancelled on purpose, and whoever cancelled it has said so.
+        if (cancelled || loadingTask.destroyed) return;
+        console.error("PDF load error:", err);
+        setFileError(describeLoadError(err, documentSource.name));
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setLoadProgress(null);
+        setPasswordRequest(null);
+      });
+    return () => {
+      cancelled = true;
+      setPasswordRequest(null);
+      loadingTask.destroy();
+    };
+  }, [documentSource, workerSrc]);
+
+  // Files from the picker or a drop replace the current document, like a new `source`.
+  const openFile = async (file: File) => {
+    if (!isPdfFile(file)) {
+      setFileError(`${file.name} is not a PDF.`);
+      return;
+    }
+    try {
+      const next = await toDocumentSource(file);
+      resetDocumentState();
+      setDocumentSource(next);
+    } catch (err: unknown) {
+      console.error("PDF source error:", err);
+      setFileError(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const handleOpenFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) openFile(file);
+  };
+
+  const cancelPassword = () => {
+    setPasswordRequest(null);
+    loadingTaskRef.current?.destroy();
+    setFileError(`${documentSource?.name ?? "The PDF"} is password-protected and was not opened.`);
+  };
+
+  const isFileDrag = (e: React.DragEvent) => !readOnly && Array.from(e.dataTransfer.types).includes("Files");
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between children fires leave on the parent too.
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) openFile(file);
+  };
+
+  const restoreSession = useCallback((session: StoredSession) => {
+    setZonesByPage(session.zonesByPage);
+    setCalibrations(session.calibrations);
+    setHistory(session.history);
+    setCurrentPage(Math.min(Math.max(session.currentPage, 1), session.numPages));
+    setRestorePrompt(null);
+    setSessionKey(session.fingerprint);
   }, []);
 
+  // A stored session for the same document is offered for restore rather than applied silently.
+  useEffect(() => {
+    if (!pdfDoc) return;
+    const fingerprint = documentFingerprint(pdfDoc);
+    let cancelled = false;
+    documentStoredRef.current = false;
+    setSessionKey(null);
+    setRestorePrompt(null);
+    loadSession(fingerprint)
+      .then((session) => {
+        if (cancelled) return;
+        if (session && autoRestoreRef.current === fingerprint) {
+          restoreSession(session);
+        } else if (
+          session &&
+          // Zones handed in by the host, or a read-only view, win over the stored session.
+          !initialZonesRef.current &&
+          !readOnlyRef.current &&
+          (session.history.past.length > 0 || Object.keys(session.zonesByPage).length > 0)
+        ) {
+          setRestorePrompt(session);
+        } else {
+          setSessionKey(fingerprint);
+        }
+      })
+      .catch((err: unknown) => {
+        console.error("Session lookup error:", err);
+        if (!cancelled) setSessionKey(fingerprint);
+      })
+      .finally(() => {
+        autoRestoreRef.current = null;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDoc, restoreSession]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setRecentSessions)
+      .catch((err: unknown) => console.error("Session list error:", err));
+  }, [recentVersion]);
+
+  useEffect(() => {
+    if (!pdfDoc || !sessionKey) return;
+    const isEmpty = history.past.length === 0 && history.future.length === 0 && Object.keys(calibrations).length === 0;
+    if (isEmpty) return;
+    const timer = setTimeout(async () => {
+      try {
+        const savedAt = Date.now();
+        await saveSession({
+          fingerprint: sessionKey,
+          fileName: documentSource?.name ?? "document.pdf",
+          numPages: pdfDoc.numPages,
+          currentPage,
+          savedAt,
+          zonesByPage,
+          calibrations,
+          history,
+        });
+        // The PDF bytes are stored once per document so recent projects can be reopened.
+        if (!documentStoredRef.current) {
+          await saveDocument(sessionKey, await pdfDoc.getData());
+          documentStoredRef.current = true;
+        }
+        setLastSavedAt(savedAt);
+        setRecentVersion((v) => v + 1);
+      } catch (err: unknown) {
+        console.error("Autosave error:", err);
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [pdfDoc, sessionKey, documentSource, zonesByPage, calibrations, history, currentPage]);
+
+  // Host callbacks fire for actual changes, not for re-renders or a new callback identity.
+  useEffect(() => {
+    const reported = reportedZonesRef.current;
+    reportedZonesRef.current = zonesByPage;
+    if (reported !== null && reported !== zonesByPage) onZonesChange?.(zonesByPage);
+  }, [zonesByPage, onZonesChange]);
+
+  useEffect(() => {
+    if (selectedZoneId === reportedSelectionRef.current) return;
+    reportedSelectionRef.current = selectedZoneId;
+    const found = selectedZoneId ? findZone(zonesByPage, selectedZoneId) : undefined;
+    onZoneSelect?.(found?.zone ?? null, found?.page ?? currentPage);
+  }, [selectedZoneId, zonesByPage, currentPage, onZoneSelect]);
+
+  useEffect(() => {
+    if (!readOnly) return;
+    setMode("view");
+    setCurrentPolygon([]);
+    setCalibrationLine([]);
+    setPendingOperation(null);
+    setSelectedVertex(null);
+  }, [readOnly]);
+
+  useImperativeHandle(ref, () => ({
+    getZones: () => zonesByPage,
+    setZones: (next: ZonesByPage) => {
+      commitZones("Set zones", next);
+      setSelectedZoneId(null);
+    },
+    fitToZone,
+    exportGeoJSON: () => zonesToFeatureCollection(zonesByPage),
+  }));
+
   useEffect(() => {
     if (pdfDoc) {
-      renderPDFPage(pdfDoc, zones, currentPolygon);
+      renderPdfLayer();
     }
-  }, [zones, currentPolygon]);
+  }, [pdfDoc, currentPage, scale]);
 
-  const renderPDFPage = async (pdf: any, polygons: Point[][][], current: Point[]) => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    if (!canvas || !ctx) return;
+  // The overlay is cheap to redraw, so it follows every render, batched to one draw per frame.
+  useEffect(() => {
+    requestOverlayDraw();
+  });
+
+  useEffect(
+    () => () => {
+      if (overlayFrameRef.current !== null) cancelAnimationFrame(overlayFrameRef.current);
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!pdfDoc) return;
+    let cancelled = false;
+    setPdfSegments([]);
+    pdfDoc
+      .getPage(currentPage)
+      .then(extractPageSegments)
+      .then((segments: Segment[]) => {
+        if (!cancelled) setPdfSegments(segments);
+      })
+      .catch((err: unknown) => console.error("Vector extraction error:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDoc, currentPage]);
+
+  // Wheel zoom needs a non-passive listener so the page itself doesn't scroll.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX, e.clientY);
+    };
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  });
 
-    const page = await pdf.getPage(1);
-    const viewport = page.getViewport({ scale: 1.5 });
+  // Shortcuts only apply while focus is inside the editor, so a host page keeps its own keys, and never while typing into a form field.
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+      // Enter on a focused button should press the button.
+      if (e.key === "Enter" && target.tagName === "BUTTON") return;
+      if (handleShortcut(e)) e.preventDefault();
+    };
+    root.addEventListener("keydown", handleKeyDown);
+    return () => root.removeEventListener("keydown", handleKeyDown);
+  });
 
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
+  // Rasterizes the page off-screen and swaps it in once done, so zooming never flashes a blank canvas.
+  const renderPdfLayer = async () => {
+    const token = ++rasterTokenRef.current;
+    const page = await pdfDoc.getPage(currentPage);
+    const viewport = page.getViewport({ scale });
+    if (token !== rasterTokenRef.current) return;
 
+    const raster = document.createElement("canvas");
+    raster.width = viewport.width;
+    raster.height = viewport.height;
     if (renderTaskRef.current) renderTaskRef.current.cancel();
-    const renderTask = page.render({ canvasContext: ctx, viewport });
+    const renderTask = page.render({ canvasContext: raster.getContext("2d"), viewport });
     renderTaskRef.current = renderTask;
 
     try {
       await renderTask.promise;
-      polygons.forEach((polygon) => {
-        drawPolygon(ctx, polygon, "rgba(71, 145, 170, 0.4)", "#4682B4");
-      });
-
-      if (current.length > 1) {
-        drawPolygon(ctx, [current], "rgba(0,0,0,0)", "#4682B4", false);
-      }
-
-      current.forEach((p) => drawPoint(ctx, p, "red"));
     } catch (err: unknown) {
       const error = err as { name?: string };
       if (error.name === "RenderingCancelledException") {
@@ -73,10 +767,201 @@ const NewPDFPolygonDrawer: React.FC = () => {
       } else {
         console.error("Render error:", err);
       }
+      return;
+    }
+
+    const canvas = pdfCanvasRef.current;
+    const overlay = canvasRef.current;
+    if (token !== rasterTokenRef.current || !canvas || !overlay) return;
+    canvas.width = overlay.width = viewport.width;
+    canvas.height = overlay.height = viewport.height;
+    canvas.getContext("2d")?.drawImage(raster, 0, 0);
+    viewportRef.current = viewport;
+
+    // Keep the PDF point that was under the cursor in place after a zoom.
+    if (zoomAnchorRef.current) {
+      scrollToAnchor(viewport, zoomAnchorRef.current);
+      zoomAnchorRef.current = null;
+    }
+    drawOverlay();
+  };
+
+  const requestOverlayDraw = () => {
+    if (overlayFrameRef.current !== null) cancelAnimationFrame(overlayFrameRef.current);
+    overlayFrameRef.current = requestAnimationFrame(() => {
+      overlayFrameRef.current = null;
+      drawOverlay();
+    });
+  };
+
+  const drawOverlay = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    const viewport = viewportRef.current;
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!pdfDoc || !viewport) return;
+    if (gridStep && mode !== "view") drawGrid(ctx, viewport, gridStep);
+
+    // While an operation is pending its result is shown in place of the page's zones.
+    (pendingOperation?.zones ?? zones).forEach((zone) => {
+      const previewing = editPreview?.zoneId === zone.id;
+      const polygons = previewing ? editPreview.polygons : zone.polygons;
+      const changed = !!pendingOperation?.changedIds.includes(zone.id);
+      drawZone(ctx, viewport, zone, {
+        polygons,
+        emphasized: zone.id === selectedZoneId || changed,
+        dashed: changed,
+        invalid: previewing && !!validatePolygons(polygons),
+      });
+    });
+
+    roomCandidates.forEach((rings, idx) => {
+      ctx.save();
+      ctx.setLineDash([6, 4]);
+      const highlighted = idx === highlightedCandidate;
+      drawPolygon(ctx, ringsToViewport(viewport, rings), `rgba(255, 165, 0, ${highlighted ? 0.45 : 0.15})`, "orange", true, highlighted ? 3 : 1.5);
+      ctx.restore();
+    });
+
+    const labelled = zones.find((zone) => zone.id === highlightedSuggestion);
+    if (labelled) {
+      ctx.save();
+      ctx.setLineDash([6, 4]);
+      drawPolygon(ctx, labelled.polygons.flatMap((rings) => ringsToViewport(viewport, rings)), "rgba(255, 165, 0, 0.3)", "orange", true, 3);
+      ctx.restore();
+    }
+
+    const previewShape = editPreview?.zoneId === selectedZone?.id ? editPreview?.shape : selectedZone?.shape;
+    if (mode === "edit" && previewShape) {
+      shapeCorners(previewShape.rect).forEach((p) => drawHandle(ctx, toViewportPoint(viewport, p), "white"));
+    } else if (mode === "edit" && selectedZone) {
+      const polygons = editablePolygons(editPreview?.zoneId === selectedZone.id ? editPreview.polygons : selectedZone.polygons);
+      polygons.forEach((rings, polygonIndex) =>
+        rings.forEach((ring, ringIndex) => {
+          midpoints(ring).forEach((p) => drawPoint(ctx, toViewportPoint(viewport, p), "rgba(255,255,255,0.9)", handleRadius - 2));
+          ring.forEach((p, vertexIndex) => {
+            const isSelected =
+              selectedVertex?.polygonIndex === polygonIndex &&
+              selectedVertex?.ringIndex === ringIndex &&
+              selectedVertex?.vertexIndex === vertexIndex;
+            drawHandle(ctx, toViewportPoint(viewport, p), isSelected ? "red" : "white");
+          });
+        })
+      );
+    }
+
+    const currentInView = currentPolygon.map((p) => toViewportPoint(viewport, p));
+    if (currentInView.length > 1) {
+      drawPolygon(ctx, [currentInView], "rgba(0,0,0,0)", "#4682B4", false);
+    }
+
+    currentInView.forEach((p) => drawPoint(ctx, p, "red"));
+
+    const lineInView = calibrationLine.map((p) => toViewportPoint(viewport, p));
+    if (lineInView.length > 1) {
+      drawPolygon(ctx, [lineInView], "rgba(0,0,0,0)", "orange", false);
+    }
+    lineInView.forEach((p) => drawPoint(ctx, p, "orange"));
+
+    const activeIssue = geometryIssues?.find((issue) => issue.key === activeIssueKey);
+    if (activeIssue?.page === currentPage) {
+      const p = toViewportPoint(viewport, activeIssue.location);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 12, 0, 2 * Math.PI);
+      ctx.strokeStyle = "#c0392b";
+      ctx.lineWidth = 3;
+      ctx.stroke();
     }
+
+    drawHoverPreview(ctx, viewport);
   };
 
-  const drawPolygon = (ctx: CanvasRenderingContext2D, polygon: Point[][], fill: string, stroke: string, close: boolean = true) => {
+  // A zone's fill, outline and label; also used on its own for the exported page image.
+  const drawZone = (
+    ctx: CanvasRenderingContext2D,
+    viewport: ViewportLike,
+    zone: Zone,
+    { polygons = zone.polygons, emphasized = false, dashed = false, invalid = false } = {}
+  ) => {
+    const color = zoneColor(zone);
+    const ringsInView = polygons.flatMap((rings) => ringsToViewport(viewport, rings));
+    ctx.save();
+    if (dashed) ctx.setLineDash([8, 4]);
+    drawPolygon(ctx, ringsInView, hexToRgba(color, emphasized ? 0.6 : 0.4), invalid ? "red" : color, true, emphasized ? 4 : 2);
+    ctx.restore();
+    const area = formatArea(zoneArea(zone), calibration);
+    drawLabel(ctx, toViewportPoint(viewport, ringCentroid(largestPart(polygons)[0])), zoneTitle(zone) ? `${zoneTitle(zone)} · ${area}` : area);
+  };
+
+  // Rubber-band segment or shape outline to the pointer, and the zone a click would select.
+  const drawHoverPreview = (ctx: CanvasRenderingContext2D, viewport: ViewportLike) => {
+    const hover = hoverRef.current;
+    if (!hover || isPanning || pendingOperation) return;
+    if (mode === "edit" || mode === "view") {
+      const hovered = zoneAtPoint(zones, hover.raw);
+      if (hovered && hovered.id !== selectedZoneId) {
+        const rings = hovered.polygons.flatMap((polygon) => ringsToViewport(viewport, polygon));
+        drawPolygon(ctx, rings, "rgba(0,0,0,0)", "#4682B4", true, 3);
+      }
+      return;
+    }
+    const anchor = mode === "calibrate" ? calibrationLine[calibrationLine.length - 1] : currentPolygon[currentPolygon.length - 1];
+    if (!anchor || (mode === "calibrate" && calibrationLine.length >= 2)) return;
+    ctx.save();
+    ctx.setLineDash([4, 4]);
+    const middle = toViewportPoint(viewport, { x: (anchor.x + hover.snapped.x) / 2, y: (anchor.y + hover.snapped.y) / 2 });
+    if (mode === "draw" && drawTool !== "polygon") {
+      const rect = rectFromCorners(anchor, hover.snapped);
+      const ring = shapeRing({ type: drawTool, rect });
+      drawPolygon(ctx, [ring.map((p) => toViewportPoint(viewport, p))], "rgba(70,130,180,0.15)", "#4682B4", true);
+      drawLabel(ctx, middle, `${formatLength(rect.width, calibration)} × ${formatLength(rect.height, calibration)}`);
+    } else {
+      const segment = [anchor, hover.snapped].map((p) => toViewportPoint(viewport, p));
+      drawPolygon(ctx, [segment], "rgba(0,0,0,0)", mode === "calibrate" ? "orange" : "#4682B4", false);
+      if (distance(anchor, hover.snapped) > 0) {
+        const angle = viewAngle(viewport, anchor, hover.snapped);
+        lastDirectionRef.current = angle;
+        const degrees = ((angle * 180) / Math.PI + 360) % 360;
+        drawLabel(ctx, middle, `${formatLength(distance(anchor, hover.snapped), calibration)} · ${degrees.toFixed(1)}°`);
+      }
+    }
+    ctx.restore();
+  };
+
+  const drawGrid = (ctx: CanvasRenderingContext2D, viewport: ViewportLike, step: number) => {
+    if (step * scale < MIN_GRID_PIXELS) return;
+    const corners = [
+      toPdfPoint(viewport, { x: 0, y: 0 }),
+      toPdfPoint(viewport, { x: viewport.width, y: viewport.height }),
+    ];
+    const [minX, maxX] = [Math.min(corners[0].x, corners[1].x), Math.max(corners[0].x, corners[1].x)];
+    const [minY, maxY] = [Math.min(corners[0].y, corners[1].y), Math.max(corners[0].y, corners[1].y)];
+    const lines: Point[][] = [];
+    for (let x = Math.ceil(minX / step) * step; x <= maxX; x += step) lines.push([{ x, y: minY }, { x, y: maxY }]);
+    for (let y = Math.ceil(minY / step) * step; y <= maxY; y += step) lines.push([{ x: minX, y }, { x: maxX, y }]);
+    ctx.save();
+    ctx.strokeStyle = "rgba(96, 125, 139, 0.25)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    lines.forEach(([a, b]) => {
+      const va = toViewportPoint(viewport, a);
+      const vb = toViewportPoint(viewport, b);
+      ctx.moveTo(va.x, va.y);
+      ctx.lineTo(vb.x, vb.y);
+    });
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const drawPolygon = (
+    ctx: CanvasRenderingContext2D,
+    polygon: Point[][],
+    fill: string,
+    stroke: string,
+    close: boolean = true,
+    lineWidth: number = 2
+  ) => {
     if (!polygon.length || polygon[0].length < 2) return;
     ctx.beginPath();
     for (let ring of polygon) {
@@ -89,170 +974,1496 @@ const NewPDFPolygonDrawer: React.FC = () => {
     }
     ctx.fillStyle = fill;
     ctx.strokeStyle = stroke;
-    ctx.lineWidth = 2;
+    ctx.lineWidth = lineWidth;
     ctx.fill("evenodd");
     ctx.stroke();
   };
 
-  const drawPoint = (ctx: CanvasRenderingContext2D, point: Point, color: string) => {
+  const drawPoint = (ctx: CanvasRenderingContext2D, point: Point, color: string, radius: number = 4) => {
     ctx.beginPath();
-    ctx.arc(point.x, point.y, 4, 0, 2 * Math.PI);
+    ctx.arc(point.x, point.y, radius, 0, 2 * Math.PI);
     ctx.fillStyle = color;
     ctx.fill();
   };
 
-  const isCloseToStart = (start: Point, current: Point) => {
-    const dx = start.x - current.x;
-    const dy = start.y - current.y;
-    return Math.sqrt(dx * dx + dy * dy) < 10;
+  const drawHandle = (ctx: CanvasRenderingContext2D, point: Point, fill: string) => {
+    ctx.fillStyle = fill;
+    ctx.strokeStyle = "#333";
+    ctx.lineWidth = 1;
+    ctx.fillRect(point.x - handleRadius, point.y - handleRadius, handleRadius * 2, handleRadius * 2);
+    ctx.strokeRect(point.x - handleRadius, point.y - handleRadius, handleRadius * 2, handleRadius * 2);
+  };
+
+  const drawLabel = (ctx: CanvasRenderingContext2D, point: Point, text: string) => {
+    ctx.font = "12px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = "white";
+    ctx.strokeText(text, point.x, point.y);
+    ctx.fillStyle = "#1b3a4b";
+    ctx.fillText(text, point.x, point.y);
   };
 
-  const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+  // Screen-pixel tolerances grow for the last finger or pen press, and on touch screens.
+  const hitScale = () => (pointerTypeRef.current !== "mouse" || coarsePointer ? TOUCH_TARGET_FACTOR : 1);
 
-  const getSnappedPoint = (point: Point): Point => {
-    let nearest: Point | null = null;
-    let minDist = SNAP_THRESHOLD;
-    for (const zone of zones) {
-      for (const ring of zone) {
-        for (let i = 0; i < ring.length; i++) {
-          const vertex = ring[i];
-          const d = distance(point, vertex);
-          if (d < minDist) {
-            minDist = d;
-            nearest = vertex;
-          }
-        }
+  const isCloseToStart = (start: Point, current: Point) => distance(start, current) < (CLOSE_THRESHOLD * hitScale()) / scale;
+
+  const getSnap = (point: Point): SnapResult | null => {
+    const targets = {
+      vertices: zoneVertices(zones),
+      segments: zoneSegments(zones),
+    };
+    if (snapToPdf) {
+      targets.vertices = targets.vertices.concat(pdfCorners);
+      targets.segments = targets.segments.concat(pdfSegments);
+    }
+    const previous = mode === "draw" ? currentPolygon[currentPolygon.length - 1] : undefined;
+    return findSnap(point, targets, (SNAP_THRESHOLD * hitScale()) / scale, previous);
+  };
+
+  // Grid spacing is typed in the display unit, so it follows the page's calibration.
+  const gridStep = gridEnabled ? toPdfLength(gridSpacing, calibration) : null;
+
+  /**
+   * Where a click at `point` lands. With `constrained` (Shift held while
+   * drawing) the segment from the previous point turns to 45° steps and any
+   * object snap is slid onto that line; otherwise object snaps win over the
+   * grid. Returns null when nothing applies and the raw point stands.
+   */
+  const resolvePoint = (point: Point, constrained: boolean): SnapResult | null => {
+    const snap = getSnap(point);
+    const previous = mode === "draw" ? currentPolygon[currentPolygon.length - 1] : undefined;
+    if (constrained && previous) {
+      const beforePrevious = currentPolygon[currentPolygon.length - 2];
+      const reference = angleReference === "segment" && beforePrevious ? segmentAngle(beforePrevious, previous) : 0;
+      const locked = constrainAngle(previous, point, reference);
+      if (snap) return { point: projectOntoLine(snap.point, previous, locked), kind: snap.kind };
+      if (gridStep) {
+        return { point: pointAlong(previous, locked, Math.round(distance(previous, locked) / gridStep) * gridStep), kind: "grid" };
       }
+      return { point: locked, kind: "angle" };
     }
-    if (nearest) {
-      const dx = point.x - nearest.x;
-      const dy = point.y - nearest.y;
-      const length = Math.sqrt(dx * dx + dy * dy) || 1;
-      const offset = 1;
-      return {
-        x: nearest.x + (dx / length) * offset,
-        y: nearest.y + (dy / length) * offset,
+    if (snap) return snap;
+    return gridStep ? { point: snapToGrid(point, gridStep), kind: "grid" } : null;
+  };
+
+  const getSnappedPoint = (point: Point, constrained = false): Point => resolvePoint(point, constrained)?.point ?? point;
+
+  // Angle as seen on screen (counterclockwise from the right), whatever the page rotation.
+  const viewAngle = (viewport: ViewportLike, a: Point, b: Point) => {
+    const va = toViewportPoint(viewport, a);
+    const vb = toViewportPoint(viewport, b);
+    return Math.atan2(va.y - vb.y, vb.x - va.x);
+  };
+
+  // Maps a client position to PDF user space, correcting for any CSS scaling of the canvas.
+  const clientToPdfPoint = (clientX: number, clientY: number): Point | null => {
+    const canvas = canvasRef.current;
+    const viewport = viewportRef.current;
+    if (!canvas || !viewport) return null;
+    // The bounding rect includes the border; the drawing covers only the content box inside it.
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = canvas.width / canvas.clientWidth;
+    const scaleY = canvas.height / canvas.clientHeight;
+    return toPdfPoint(viewport, {
+      x: (clientX - rect.left - canvas.clientLeft) * scaleX,
+      y: (clientY - rect.top - canvas.clientTop) * scaleY,
+    });
+  };
+
+  const zoomBy = (factor: number, clientX?: number, clientY?: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const newScale = clampScale(scale * factor);
+    if (newScale === scale) return;
+
+    const containerRect = container.getBoundingClientRect();
+    const anchorX = clientX ?? containerRect.left + container.clientWidth / 2;
+    const anchorY = clientY ?? containerRect.top + container.clientHeight / 2;
+    const pdfPoint = clientToPdfPoint(anchorX, anchorY);
+    if (pdfPoint) {
+      zoomAnchorRef.current = {
+        pdfPoint,
+        offsetX: anchorX - containerRect.left,
+        offsetY: anchorY - containerRect.top,
       };
     }
-    return point;
+    setScale(newScale);
   };
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const rect = canvasRef.current!.getBoundingClientRect();
-    let rawPoint = {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
+  const fitToWidth = async () => {
+    const container = containerRef.current;
+    if (!pdfDoc || !container) return;
+    const page = await pdfDoc.getPage(currentPage);
+    const baseWidth = page.getViewport({ scale: 1 }).width;
+    // Leave room for the canvas border so no horizontal scrollbar appears.
+    setScale(clampScale((container.clientWidth - 2) / baseWidth));
+  };
+
+  // Zooms until the zone fills most of the view, centres it and selects it.
+  const fitToZone = async (id: string) => {
+    const found = findZone(zonesByPage, id);
+    const container = containerRef.current;
+    if (!found || !pdfDoc || !container) return;
+    goToPage(found.page);
+    setSelectedZoneId(id);
+    const page = await pdfDoc.getPage(found.page);
+    const base: ViewportLike = page.getViewport({ scale: 1 });
+    const inView = found.zone.polygons.flatMap((rings) => rings[0]).map((p) => toViewportPoint(base, p));
+    const xs = inView.map((p) => p.x);
+    const ys = inView.map((p) => p.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    // The container only grows to its max height, which is the space actually available.
+    const maxHeight = parseFloat(getComputedStyle(container).maxHeight);
+    const viewHeight = Number.isFinite(maxHeight) ? maxHeight : container.clientHeight;
+    const newScale = clampScale(
+      FIT_FILL * Math.min(container.clientWidth / Math.max(maxX - minX, 1), viewHeight / Math.max(maxY - minY, 1))
+    );
+    const anchor = {
+      pdfPoint: toPdfPoint(base, { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }),
+      offsetX: container.clientWidth / 2,
+      offsetY: viewHeight / 2,
     };
-    const snapped = getSnappedPoint(rawPoint);
-    if (currentPolygon.length >= 3 && isCloseToStart(currentPolygon[0], snapped)) {
+    if (newScale === scale && found.page === currentPage && viewportRef.current) {
+      scrollToAnchor(viewportRef.current, anchor);
+    } else {
+      zoomAnchorRef.current = anchor;
+      setScale(newScale);
+    }
+  };
+
+  const scrollToAnchor = (viewport: ViewportLike, anchor: ZoomAnchor) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const anchorInView = toViewportPoint(viewport, anchor.pdfPoint);
+    container.scrollLeft = anchorInView.x - anchor.offsetX;
+    container.scrollTop = anchorInView.y - anchor.offsetY;
+  };
+
+  // Mouse, pen and touch all arrive as pointer events. One pointer drags a
+  // handle or pans (a press that barely moves is a tap); a second one turns
+  // the press into a pinch. Pens and fingers long-press where a mouse
+  // would double-click.
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const container = containerRef.current;
+    if ((e.pointerType === "mouse" && e.button !== 0) || !container) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerTypeRef.current = e.pointerType;
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.size === 2) startPinch();
+    if (pointers.size > 1 || gestureRef.current) return;
+
+    if (e.pointerType !== "mouse") {
+      const { clientX, clientY } = e;
+      longPressRef.current = { timer: setTimeout(() => handleLongPress(clientX, clientY), LONG_PRESS_MS), x: clientX, y: clientY };
+    }
+    if (!readOnly && mode === "edit" && selectedZone && startVertexDrag(e.clientX, e.clientY, selectedZone)) return;
+    panRef.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      scrollLeft: container.scrollLeft,
+      scrollTop: container.scrollTop,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const pointers = pointersRef.current;
+    if (pointers.has(e.pointerId)) pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const longPress = longPressRef.current;
+    if (longPress && Math.abs(e.clientX - longPress.x) + Math.abs(e.clientY - longPress.y) >= PAN_THRESHOLD) cancelLongPress();
+    if (pinchRef.current) {
+      if (pointers.size >= 2) updatePinch(pinchRef.current);
+      return;
+    }
+    if (gestureRef.current) return;
+
+    const shapeDrag = shapeDragRef.current;
+    if (shapeDrag && e.buttons & 1) {
+      const point = clientToPdfPoint(e.clientX, e.clientY);
+      if (!point) return;
+      shapeDrag.shape = resizeShape(shapeDrag.shape, shapeDrag.corner, getSnappedPoint(point));
+      shapeDrag.moved = true;
+      setEditPreview({ zoneId: shapeDrag.zoneId, polygons: [[shapeRing(shapeDrag.shape)]], shape: shapeDrag.shape });
+      return;
+    }
+
+    const drag = vertexDragRef.current;
+    if (drag && e.buttons & 1) {
+      const point = clientToPdfPoint(e.clientX, e.clientY);
+      if (!point) return;
+      drag.polygons = moveVertex(drag.polygons, drag.vertex, getSnappedPoint(point));
+      drag.moved = true;
+      setEditPreview({ zoneId: drag.zoneId, polygons: drag.polygons });
+      return;
+    }
+
+    const pan = panRef.current;
+    const container = containerRef.current;
+    if (!pan || !container || !(e.buttons & 1)) {
+      // Mouse and hovering pens show where a click would snap to.
+      updateHover(e.clientX, e.clientY, e.shiftKey);
+      return;
+    }
+    const dx = e.clientX - pan.startX;
+    const dy = e.clientY - pan.startY;
+    if (!pan.moved && Math.abs(dx) + Math.abs(dy) < PAN_THRESHOLD) return;
+    if (!pan.moved) {
+      pan.moved = true;
+      setIsPanning(true);
+    }
+    container.scrollLeft = pan.scrollLeft - dx;
+    container.scrollTop = pan.scrollTop - dy;
+  };
+
+  // Also handles pointercancel, which never counts as a tap.
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const pointers = pointersRef.current;
+    if (!pointers.delete(e.pointerId)) return;
+    cancelLongPress();
+    if (gestureRef.current) {
+      if (pointers.size === 0) {
+        gestureRef.current = false;
+        pinchRef.current = null;
+      }
+      return;
+    }
+    const wasPan = panRef.current?.moved;
+    const wasDrag = !!(vertexDragRef.current || shapeDragRef.current);
+    panRef.current = null;
+    finishDrag();
+    if (!wasPan && !wasDrag && e.type === "pointerup") handleTap(e.clientX, e.clientY, e.shiftKey);
+  };
+
+  const finishDrag = () => {
+    if (isPanning) setIsPanning(false);
+    const drag = vertexDragRef.current;
+    if (drag) {
+      vertexDragRef.current = null;
+      setEditPreview(null);
+      const action = drag.inserted ? "Insert vertex in" : "Move vertex of";
+      if (drag.moved) commitPolygonsEdit(`${action} ${zoneLabelById(drag.zoneId)}`, drag.zoneId, drag.polygons);
+    }
+    const shapeDrag = shapeDragRef.current;
+    if (shapeDrag) {
+      shapeDragRef.current = null;
+      setEditPreview(null);
+      const label = `Resize ${zoneLabelById(shapeDrag.zoneId)}`;
+      if (shapeDrag.moved) commitPolygonsEdit(label, shapeDrag.zoneId, [[shapeRing(shapeDrag.shape)]], shapeDrag.shape);
+    }
+  };
+
+  // Whatever the first finger started (a pan, a handle drag) is dropped uncommitted.
+  const abandonPress = () => {
+    cancelLongPress();
+    gestureRef.current = true;
+    panRef.current = null;
+    vertexDragRef.current = null;
+    shapeDragRef.current = null;
+    setEditPreview(null);
+    setIsPanning(false);
+  };
+
+  const startPinch = () => {
+    abandonPress();
+    const [a, b] = Array.from(pointersRef.current.values());
+    const anchor = clientToPdfPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+    pinchRef.current = anchor && { distance: Math.max(distance(a, b), 1), scale, anchor };
+  };
+
+  const updatePinch = (pinch: PinchState) => {
+    const container = containerRef.current;
+    const viewport = viewportRef.current;
+    if (!container || !viewport) return;
+    const [a, b] = Array.from(pointersRef.current.values());
+    const rect = container.getBoundingClientRect();
+    const anchor = { pdfPoint: pinch.anchor, offsetX: (a.x + b.x) / 2 - rect.left, offsetY: (a.y + b.y) / 2 - rect.top };
+    // Rounded so finger jitter doesn't re-render the page on every move.
+    const newScale = clampScale(Math.round(((pinch.scale * distance(a, b)) / pinch.distance) * 100) / 100);
+    if (newScale === scale) {
+      scrollToAnchor(viewport, anchor);
+      return;
+    }
+    zoomAnchorRef.current = anchor;
+    setScale(newScale);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  const handleLongPress = (clientX: number, clientY: number) => {
+    longPressRef.current = null;
+    abandonPress();
+    closeOrDeleteAt(clientX, clientY);
+  };
+
+  // Grabs a vertex handle, or inserts a vertex at a midpoint handle and grabs that.
+  // Shape zones only expose their corner handles, which resize the shape.
+  const startVertexDrag = (clientX: number, clientY: number, zone: Zone) => {
+    const point = clientToPdfPoint(clientX, clientY);
+    if (!point) return false;
+    if (zone.shape) {
+      const corner = findShapeCorner(zone.shape, point, (HANDLE_RADIUS * hitScale()) / scale);
+      if (corner === null) return false;
+      shapeDragRef.current = { zoneId: zone.id, corner, shape: zone.shape, moved: false };
+      return true;
+    }
+    const polygons = editablePolygons(zone.polygons);
+    const tolerance = (HANDLE_RADIUS * hitScale()) / scale;
+
+    const vertex = findVertex(polygons, point, tolerance);
+    if (vertex) {
+      vertexDragRef.current = { zoneId: zone.id, vertex, polygons, moved: false, inserted: false };
+      setSelectedVertex(vertex);
+      return true;
+    }
+
+    const edge = findMidpoint(polygons, point, tolerance);
+    if (edge) {
+      const inserted = { ...edge, vertexIndex: edge.vertexIndex + 1 };
+      const ring = polygons[edge.polygonIndex][edge.ringIndex];
+      const withVertex = insertVertex(polygons, edge, midpoints(ring)[edge.vertexIndex]);
+      vertexDragRef.current = { zoneId: zone.id, vertex: inserted, polygons: withVertex, moved: true, inserted: true };
+      setEditPreview({ zoneId: zone.id, polygons: withVertex });
+      setSelectedVertex(inserted);
+      return true;
+    }
+    return false;
+  };
+
+  // Vertex edits are re-validated before they become an undo step, and any
+  // area the edited zone grows into is taken from its neighbours. Passing a
+  // shape keeps the zone resizable; otherwise it becomes a plain polygon.
+  const commitPolygonsEdit = (
+    label: string,
+    zoneId: string,
+    polygons: PolygonRings[],
+    shape?: ZoneShape,
+    mergeKey?: string
+  ) => {
+    const error = validatePolygons(polygons);
+    setEditError(error);
+    if (error) return;
+    const found = findZone(zonesByPage, zoneId);
+    if (!found) return;
+    const edited = zonesByPage[found.page].map((zone) =>
+      zone.id === zoneId ? (shape ? { ...zone, polygons, shape } : withGeometry(zone, polygons)) : zone
+    );
+    const { zones: pageZones } = carveFromOthers(edited, toTurfGeometry(polygons), [zoneId]);
+    commitEdit(label, { zonesByPage: { ...zonesByPage, [found.page]: pageZones } }, found.page, mergeKey);
+  };
+
+  const convertSelectedShape = () => {
+    if (!selectedZone) return;
+    commitPolygonsEdit(`Convert ${zoneLabel(selectedZone)} to polygon`, selectedZone.id, selectedZone.polygons);
+  };
+
+  const zoneLabelById = (id: string) => {
+    const found = findZone(zonesByPage, id);
+    return found ? zoneLabel(found.zone) : "zone";
+  };
+
+  const deleteSelectedVertex = (vertex: VertexRef | null = selectedVertex) => {
+    if (!selectedZone || !vertex) return;
+    const polygons = deleteVertex(editablePolygons(selectedZone.polygons), vertex);
+    commitPolygonsEdit(`Delete vertex of ${zoneLabel(selectedZone)}`, selectedZone.id, polygons);
+    setSelectedVertex(null);
+  };
+
+  const updateHover = (clientX: number, clientY: number, constrained = false) => {
+    const point = clientToPdfPoint(clientX, clientY);
+    const snap = point && mode !== "view" ? resolvePoint(point, constrained) : null;
+    hoverRef.current = point && { raw: point, snapped: snap?.point ?? point };
+    requestOverlayDraw();
+    const unchanged =
+      snap?.kind === snapIndicator?.kind && snap?.point.x === snapIndicator?.point.x && snap?.point.y === snapIndicator?.point.y;
+    if (!unchanged) setSnapIndicator(snap);
+    if (mode === "view") {
+      const hoveredId = (point && zoneAtPoint(zones, point)?.id) || null;
+      if (hoveredId !== hoveredZoneId) setHoveredZoneId(hoveredId);
+      moveTooltip(clientX, clientY);
+    }
+  };
+
+  // Positioned directly rather than through state, so following the pointer doesn't re-render the editor.
+  const moveTooltip = (clientX: number, clientY: number) => {
+    const tooltip = tooltipRef.current;
+    const canvas = canvasRef.current;
+    if (!tooltip || !canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    tooltip.style.left = `${clientX - rect.left + 14}px`;
+    tooltip.style.top = `${clientY - rect.top + 14}px`;
+  };
+
+  const clearHover = () => {
+    hoverRef.current = null;
+    requestOverlayDraw();
+    setSnapIndicator(null);
+    setHoveredZoneId(null);
+  };
+
+  const handleTap = (clientX: number, clientY: number, constrained = false) => {
+    const rawPoint = clientToPdfPoint(clientX, clientY);
+    if (!rawPoint) return;
+    if (mode === "edit" || mode === "view") {
+      const hit = zoneAtPoint(zones, rawPoint);
+      setSelectedZoneId(hit?.id ?? null);
+      setSelectedVertex(null);
+      setEditError(null);
+      return;
+    }
+    const snapped = getSnappedPoint(rawPoint, constrained);
+    if (mode === "calibrate") {
+      setCalibrationLine(calibrationLine.length >= 2 ? [snapped] : [...calibrationLine, snapped]);
+      return;
+    }
+    addDrawPoint(snapped);
+  };
+
+  // Shared by canvas taps and typed coordinates.
+  const addDrawPoint = (point: Point) => {
+    if (pendingOperation) return;
+    if (drawTool !== "polygon") {
+      placeShapeCorner(drawTool, point);
+      return;
+    }
+    // The second click of a double-click lands on the point just placed; adding it again would store a duplicate vertex.
+    const last = currentPolygon[currentPolygon.length - 1];
+    if (last && distance(last, point) <= DUPLICATE_TOLERANCE) return;
+    if (operation !== "split" && currentPolygon.length >= 3 && isCloseToStart(currentPolygon[0], point)) {
       handleClosePolygon();
     } else {
-      setCurrentPolygon([...currentPolygon, snapped]);
+      commitEdit("Add point", { currentPolygon: [...currentPolygon, point] });
+      const { value: x, unit } = measureLength(point.x, calibration);
+      const { value: y } = measureLength(point.y, calibration);
+      setAnnouncement(`Point ${currentPolygon.length + 1} at ${x.toFixed(1)}, ${y.toFixed(1)} ${unit}`);
+    }
+  };
+
+  // Typed values are in the calibrated unit (points when uncalibrated), from
+  // the page origin or the last point; angles are on-screen degrees.
+  const addTypedPoint = (a: number, b: number, coordinateMode: CoordinateMode) => {
+    const last = currentPolygon[currentPolygon.length - 1];
+    const viewport = viewportRef.current;
+    if (coordinateMode === "polar" && last && viewport) {
+      const angle = Number.isFinite(b) ? (b * Math.PI) / 180 : lastDirectionRef.current;
+      if (angle === null) {
+        setEditError("Point the cursor the way the segment should go, or type an angle.");
+        return;
+      }
+      const from = toViewportPoint(viewport, last);
+      const ahead = toPdfPoint(viewport, { x: from.x + Math.cos(angle), y: from.y - Math.sin(angle) });
+      addDrawPoint(pointAlong(last, ahead, toPdfLength(a, calibration)));
+      return;
     }
+    const dx = toPdfLength(a, calibration);
+    const dy = toPdfLength(b, calibration);
+    addDrawPoint(coordinateMode === "relative" && last ? { x: last.x + dx, y: last.y + dy } : { x: dx, y: dy });
   };
 
-  const handleCanvasDoubleClick = () => {
-    if (currentPolygon.length >= 3) {
+  const minShapePoints = operation === "split" ? 2 : 3;
+
+  // Double-click with a mouse, long-press with a pen or finger: closes the
+  // shape being drawn, or deletes the vertex under the pointer in edit mode.
+  const closeOrDeleteAt = (clientX: number, clientY: number) => {
+    if (readOnly) return;
+    if (mode === "edit" && selectedZone) {
+      const point = clientToPdfPoint(clientX, clientY);
+      const vertex = point && findVertex(editablePolygons(selectedZone.polygons), point, (HANDLE_RADIUS * hitScale()) / scale);
+      if (vertex) deleteSelectedVertex(vertex);
+      return;
+    }
+    if (mode === "draw" && !pendingOperation && currentPolygon.length >= minShapePoints) {
       handleClosePolygon();
     }
   };
 
-  const handleClosePolygon = () => {
-    let coords = currentPolygon.map((p) => [+p.x.toFixed(2), +p.y.toFixed(2)]);
-    const first = coords[0];
-    const last = coords[coords.length - 1];
-    if (first[0] !== last[0] || first[1] !== last[1]) coords.push([...first]);
-    const newTurf = turfPolygon([coords]);
-    let updatedZones: Point[][][] = [];
-    let overlapHandled = false;
+  // Touch screens may also report a double tap as a dblclick; those taps are already handled.
+  const handleCanvasDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (pointerTypeRef.current === "mouse") closeOrDeleteAt(e.clientX, e.clientY);
+  };
 
-    for (let zone of zones) {
-      const flatOuter = zone[0].map((p) => [+p.x.toFixed(2), +p.y.toFixed(2)]);
-      if (flatOuter[0][0] !== flatOuter[flatOuter.length - 1][0] || flatOuter[0][1] !== flatOuter[flatOuter.length - 1][1]) {
-        flatOuter.push([...flatOuter[0]]);
-      }
-      const holes = zone.slice(1).map(h => h.map((p) => [+p.x.toFixed(2), +p.y.toFixed(2)]));
-      const existingTurf = turfPolygon([flatOuter, ...holes]);
-
-      if (booleanContains(existingTurf, newTurf)) {
-        // Append the new hole
-        const newHoles = [...holes, coords];
-        const updatedZone: Point[][] = [
-          flatOuter.map(([x, y]) => ({ x, y })),
-          ...newHoles.map(hole => hole.map(([x, y]) => ({ x, y })))
-        ];
-        updatedZones.push(updatedZone);
-        overlapHandled = true;
-      } else if (booleanIntersects(existingTurf, newTurf)) {
-        // Subtract the new polygon from the existing one
-        const clipped = difference(existingTurf, newTurf) as Feature<TurfPolygon>;
-        if (clipped?.geometry?.coordinates.length) {
-          const parts = clipped.geometry.coordinates.map(
-            (ring) => ring.map(([x, y]) => ({ x, y }))
-          );
-          updatedZones.push(parts);
-        }
-        overlapHandled = true;
+  // The first click anchors a corner; the second places the opposite one and closes the shape.
+  const placeShapeCorner = (type: ShapeType, point: Point) => {
+    if (currentPolygon.length === 0) {
+      commitEdit("Place corner", { currentPolygon: [point] });
+      return;
+    }
+    const rect = rectFromCorners(currentPolygon[0], point);
+    if (rect.width < CLOSE_THRESHOLD / scale || rect.height < CLOSE_THRESHOLD / scale) {
+      setEditError("Shape is too small. Click two opposite corners.");
+      return;
+    }
+    const shape = { type, rect };
+    handleClosePolygon(shapeRing(shape), shape);
+  };
+
+  // "new" commits straight away; the explicit operations are previewed first,
+  // keeping the drawn points until the result is applied. On failure the
+  // points are kept too, so the offending one can be undone.
+  const handleClosePolygon = (points: Point[] = currentPolygon, shape?: ZoneShape) => {
+    const newZone = createZone([[points]], { name: nextZoneName(zonesByPage), shape });
+    try {
+      const result = applyZoneOperation(operation, points, zones, selectedZoneId, newZone);
+      setEditError(null);
+      if (operation === "new") {
+        commitEdit(result.summary, { zonesByPage: { ...zonesByPage, [currentPage]: result.zones }, currentPolygon: [] });
+        reviewGeometry(result);
       } else {
-        updatedZones.push(zone);
+        setPendingOperation(result);
       }
+    } catch (err: unknown) {
+      console.error("Zone operation error:", err);
+      setEditError("That shape can't be combined with the existing zones. Check it doesn't cross itself.");
     }
+  };
 
-    if (!overlapHandled) {
-      updatedZones.push([currentPolygon]);
+  const applyPendingOperation = () => {
+    if (!pendingOperation) return;
+    commitEdit(pendingOperation.summary, { zonesByPage: { ...zonesByPage, [currentPage]: pendingOperation.zones }, currentPolygon: [] });
+    reviewGeometry(pendingOperation);
+    setPendingOperation(null);
+  };
+
+  // Turf can throw on degenerate geometry; the check then reports failure instead of breaking the click that ran it.
+  const runGeometryCheck = (check: () => GeometryIssue[]): GeometryIssue[] | null => {
+    try {
+      return check();
+    } catch (err: unknown) {
+      console.error("Geometry check error:", err);
+      setEditError("The geometry check failed on one of the zones. Look for zones that cross themselves.");
+      return null;
     }
+  };
 
-    setHistory([...history, zones]);
-    setRedoStack([]);
-    setZones(updatedZones);
-    setCurrentPolygon([]);
+  // Lists any problems with the zones an operation just created or changed; a clean result leaves the list alone.
+  const reviewGeometry = (result: OperationResult) => {
+    const issues = runGeometryCheck(() =>
+      validatePageZones(currentPage, result.zones).filter((issue) => issue.zoneIds.some((id) => result.changedIds.includes(id)))
+    );
+    if (!issues?.length) return;
+    setGeometryIssues(issues);
+    setActiveIssueKey(null);
+    setAnnouncement(`${result.summary}. ${issues.length} geometry issue(s) found.`);
   };
 
+  const checkGeometry = () => {
+    const issues = runGeometryCheck(() => validateZones(zonesByPage));
+    if (!issues) return;
+    setEditError(null);
+    setGeometryIssues(issues);
+    setActiveIssueKey(null);
+  };
 
-  const handleUndo = () => {
-    if (history.length === 0) return;
-    const previous = [...history[history.length - 1]];
-    setHistory(history.slice(0, -1));
-    setRedoStack([zones, ...redoStack]);
-    setZones(previous);
+  const selectIssue = (issue: GeometryIssue) => {
+    setActiveIssueKey(issue.key);
+    fitToZone(issue.zoneIds[0]);
   };
 
-  const handleRedo = () => {
-    if (redoStack.length === 0) return;
-    const next = [...redoStack[0]];
-    setRedoStack(redoStack.slice(1));
-    setHistory([...history, zones]);
-    setZones(next);
+  // After a fix the list is re-checked, limited to the zones it already showed.
+  const fixGeometryIssue = (issue: GeometryIssue) => {
+    const fixed = fixIssue(zonesByPage[issue.page] ?? [], issue);
+    if (!fixed) {
+      setEditError("That fix would leave invalid geometry. Edit the zone's vertices instead.");
+      return;
+    }
+    setEditError(null);
+    const next = { ...zonesByPage, [issue.page]: fixed };
+    commitZones(`${fixLabel(issue)}: ${zoneLabelById(issue.zoneIds[0])}`, next, issue.page);
+    const listedIds = (geometryIssues ?? []).flatMap((listed) => listed.zoneIds);
+    const remaining = runGeometryCheck(() => validateZones(next));
+    setGeometryIssues(remaining && remaining.filter((issue) => issue.zoneIds.some((id) => listedIds.includes(id))));
+    if (selectedZoneId && !fixed.some((zone) => zone.id === selectedZoneId)) setSelectedZoneId(null);
   };
 
-  return (
-    <div>
-      <div style={{ padding: "10px", display: "flex", gap: "10px" }}>
-        <button onClick={() => setCurrentPolygon([])}>Clear Current Polygon</button>
-        <button onClick={handleUndo} disabled={history.length === 0}>Undo</button>
-        <button onClick={handleRedo} disabled={redoStack.length === 0}>Redo</button>
-        <button
-  onClick={() => {
-    const zoneData = zones.map((zone, idx) => {
-      return {
-        zoneIndex: idx,
-        outer: zone[0],
-        holes: zone.slice(1),
-      };
+  // Every zone or in-progress point change goes through here so it becomes a labeled undo step.
+  const commitEdit = (label: string, next: Partial<EditorState>, page: number = currentPage, mergeKey?: string) => {
+    const before = { zonesByPage, currentPolygon };
+    const after = { ...before, ...next };
+    const command = createCommand(label, page, before, after, mergeKey);
+    if (!command) return;
+    setHistory(pushCommand(history, command));
+    setZonesByPage(after.zonesByPage);
+    setCurrentPolygon(after.currentPolygon);
+    setAnnouncement(label);
+  };
+
+  const commitZones = (label: string, next: ZonesByPage, page: number = currentPage) =>
+    commitEdit(label, { zonesByPage: next }, page);
+
+  // An edit spanning several pages becomes one step per page, so undo and redo show the sheet each step changed.
+  const commitZonesPerPage = (labelFor: (page: number) => string, next: ZonesByPage) => {
+    const pages = Object.keys(next)
+      .map(Number)
+      .filter((page) => next[page] !== zonesByPage[page])
+      .sort((a, b) => a - b);
+    let state: EditorState = { zonesByPage, currentPolygon };
+    let nextHistory = history;
+    pages.forEach((page) => {
+      const after = { ...state, zonesByPage: { ...state.zonesByPage, [page]: next[page] } };
+      const command = createCommand(labelFor(page), page, state, after);
+      if (command) nextHistory = pushCommand(nextHistory, command);
+      state = after;
+    });
+    if (!pages.length) return;
+    setHistory(nextHistory);
+    setZonesByPage(next);
+    setAnnouncement(pages.map(labelFor).join(". "));
+  };
+
+  const describePatch = (zone: Zone, patch: ZonePatch) => {
+    if (patch.name !== undefined) return `Rename ${zoneLabel(zone)} to ${patch.name || "unnamed zone"}`;
+    if (patch.category) return `Set ${zoneLabel(zone)} to ${categoryLabel(patch.category)}`;
+    if ("number" in patch) return `Renumber ${zoneLabel(zone)} to ${patch.number || "no number"}`;
+    if ("color" in patch) return `Recolor ${zoneLabel(zone)}`;
+    return `Edit notes of ${zoneLabel(zone)}`;
+  };
+
+  const updateZone = (id: string, patch: ZonePatch) => {
+    const found = findZone(zonesByPage, id);
+    if (!found) return;
+    const pageZones = zonesByPage[found.page].map((zone) => (zone.id === id ? { ...zone, ...patch } : zone));
+    // Color pickers fire on every move, so successive recolors of one zone merge into one step.
+    const mergeKey = "color" in patch ? `color:${id}` : undefined;
+    commitEdit(describePatch(found.zone, patch), { zonesByPage: { ...zonesByPage, [found.page]: pageZones } }, found.page, mergeKey);
+  };
+
+  const deleteZone = (id: string) => {
+    const found = findZone(zonesByPage, id);
+    if (!found) return;
+    const remaining = zonesByPage[found.page].filter((zone) => zone.id !== id);
+    commitZones(`Delete ${zoneLabel(found.zone)}`, { ...zonesByPage, [found.page]: remaining }, found.page);
+    if (selectedZoneId === id) setSelectedZoneId(null);
+  };
+
+  // Steps through history to any position, restoring the zones and the
+  // in-progress points, and jumps back to the sheet that actually changed.
+  const jumpToHistory = (position: number) => {
+    const result = travelTo({ zonesByPage, currentPolygon }, history, position);
+    if (!result.last) return;
+    goToPage(result.last.page, true);
+    setHistory(result.history);
+    setZonesByPage(result.state.zonesByPage);
+    setCurrentPolygon(result.state.currentPolygon);
+    setPendingOperation(null);
+    if (result.state.currentPolygon.length && mode !== "draw") setMode("draw");
+    setAnnouncement(`${position < history.past.length ? "Undid" : "Redid"} ${result.last.label}`);
+  };
+
+  const handleUndo = () => jumpToHistory(history.past.length - 1);
+
+  const handleRedo = () => jumpToHistory(history.past.length + 1);
+
+  // Escape backs out of one thing at a time, innermost first.
+  const cancelCurrentAction = () => {
+    if (pendingOperation) setPendingOperation(null);
+    else if (currentPolygon.length) commitEdit("Cancel drawing", { currentPolygon: [] });
+    else if (mode === "calibrate") stopCalibrationLine();
+    else if (selectedVertex) setSelectedVertex(null);
+    else setSelectedZoneId(null);
+  };
+
+  // Steps are in screen pixels, so a nudge looks the same at any zoom or page rotation.
+  // View mode leaves the arrow keys to scroll the page.
+  const nudgeSelection = (dx: number, dy: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport || !selectedZone || pendingOperation || mode === "view") return false;
+    const shift = (p: Point) => {
+      const inView = toViewportPoint(viewport, p);
+      return toPdfPoint(viewport, { x: inView.x + dx, y: inView.y + dy });
+    };
+    if (mode === "edit" && selectedVertex && !selectedZone.shape) {
+      const polygons = editablePolygons(selectedZone.polygons);
+      const { polygonIndex, ringIndex, vertexIndex } = selectedVertex;
+      const vertex = polygons[polygonIndex]?.[ringIndex]?.[vertexIndex];
+      if (!vertex) return false;
+      commitPolygonsEdit(
+        `Nudge vertex of ${zoneLabel(selectedZone)}`,
+        selectedZone.id,
+        moveVertex(polygons, selectedVertex, shift(vertex)),
+        undefined,
+        `nudge:${selectedZone.id}:${polygonIndex}:${ringIndex}:${vertexIndex}`
+      );
+      return true;
+    }
+    const polygons = selectedZone.polygons.map((rings) => rings.map((ring) => ring.map(shift)));
+    // Shapes move by two opposite corners so they stay axis-aligned boxes on rotated pages too.
+    const shape = selectedZone.shape && {
+      ...selectedZone.shape,
+      rect: rectFromCorners(shift(shapeCorners(selectedZone.shape.rect)[0]), shift(shapeCorners(selectedZone.shape.rect)[2])),
+    };
+    commitPolygonsEdit(`Move ${zoneLabel(selectedZone)}`, selectedZone.id, polygons, shape, `nudge:${selectedZone.id}`);
+    return true;
+  };
+
+  const cycleZone = (direction: number) => {
+    if (!zones.length) return false;
+    const idx = zones.findIndex((zone) => zone.id === selectedZoneId);
+    const next = zones[idx < 0 ? (direction > 0 ? 0 : zones.length - 1) : (idx + direction + zones.length) % zones.length];
+    setSelectedZoneId(next.id);
+    setSelectedVertex(null);
+    setAnnouncement(`Selected ${zoneLabel(next)}, ${categoryLabel(next.category)}, ${formatArea(zoneArea(next), calibration)}`);
+    return true;
+  };
+
+  const cycleVertex = (direction: number) => {
+    if (mode !== "edit" || !selectedZone || selectedZone.shape) return false;
+    const refs: VertexRef[] = editablePolygons(selectedZone.polygons).flatMap((rings, polygonIndex) =>
+      rings.flatMap((ring, ringIndex) => ring.map((_, vertexIndex) => ({ polygonIndex, ringIndex, vertexIndex })))
+    );
+    const idx = refs.findIndex(
+      (ref) =>
+        ref.polygonIndex === selectedVertex?.polygonIndex &&
+        ref.ringIndex === selectedVertex?.ringIndex &&
+        ref.vertexIndex === selectedVertex?.vertexIndex
+    );
+    const next = idx < 0 ? (direction > 0 ? 0 : refs.length - 1) : (idx + direction + refs.length) % refs.length;
+    setSelectedVertex(refs[next]);
+    setAnnouncement(`Vertex ${next + 1} of ${refs.length}`);
+    return true;
+  };
+
+  // Returns whether the key was used, so its browser default (scrolling, back navigation) can be suppressed.
+  const handleShortcut = (e: KeyboardEvent): boolean => {
+    if (showShortcuts) {
+      if (e.key !== "Escape" && e.key !== "?") return false;
+      setShowShortcuts(false);
+      return true;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      if (readOnly) return false;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) handleUndo();
+      else if (key === "y" || key === "z") handleRedo();
+      else return false;
+      return true;
+    }
+    if (e.altKey || !pdfDoc || (readOnly && !VIEW_KEYS.includes(e.key))) return false;
+    const step = e.shiftKey ? NUDGE_STEP * 10 : NUDGE_STEP;
+    switch (e.key) {
+      case "?":
+        setShowShortcuts(true);
+        return true;
+      case "/":
+        searchInputRef.current?.focus();
+        return true;
+      case "Escape":
+        cancelCurrentAction();
+        return true;
+      case "Enter":
+        if (pendingOperation) applyPendingOperation();
+        else if (mode === "draw" && drawTool === "polygon" && currentPolygon.length >= minShapePoints) handleClosePolygon();
+        else return false;
+        return true;
+      case "Backspace":
+        if (mode === "draw" && currentPolygon.length && !pendingOperation) {
+          commitEdit("Remove point", { currentPolygon: currentPolygon.slice(0, -1) });
+        } else if (mode === "edit" && selectedVertex) deleteSelectedVertex();
+        else return false;
+        return true;
+      case "Delete":
+        if (mode === "edit" && selectedVertex) deleteSelectedVertex();
+        else if (selectedZone && mode !== "view") deleteZone(selectedZone.id);
+        else return false;
+        return true;
+      case "ArrowUp":
+        return nudgeSelection(0, -step);
+      case "ArrowDown":
+        return nudgeSelection(0, step);
+      case "ArrowLeft":
+        return nudgeSelection(-step, 0);
+      case "ArrowRight":
+        return nudgeSelection(step, 0);
+      case "[":
+        return cycleZone(-1);
+      case "]":
+        return cycleZone(1);
+      case ",":
+        return cycleVertex(-1);
+      case ".":
+        return cycleVertex(1);
+      case "PageUp":
+        goToPage(currentPage - 1);
+        return true;
+      case "PageDown":
+        goToPage(currentPage + 1);
+        return true;
+      case "+":
+      case "=":
+        zoomBy(ZOOM_STEP);
+        return true;
+      case "-":
+        zoomBy(1 / ZOOM_STEP);
+        return true;
+      case "0":
+        fitToWidth();
+        return true;
+    }
+    const key = e.key.toLowerCase();
+    const operationIndex = Number(key) - 1;
+    if (ZONE_OPERATIONS[operationIndex]) {
+      changeOperation(ZONE_OPERATIONS[operationIndex].value);
+      return true;
+    }
+    const tool = TOOL_KEYS[key];
+    if (tool && (tool === "polygon" || operation !== "split")) {
+      changeDrawTool(tool);
+      return true;
+    }
+    if (MODE_KEYS[key]) {
+      changeMode(MODE_KEYS[key]);
+      return true;
+    }
+    if (key === "s") {
+      setSnapToPdf(!snapToPdf);
+      return true;
+    }
+    if (key === "g") {
+      setGridEnabled(!gridEnabled);
+      return true;
+    }
+    return false;
+  };
+
+  const handleDetectRooms = () => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const pageArea = (viewport.width / viewport.scale) * (viewport.height / viewport.scale);
+    const minArea = calibration
+      ? MIN_ROOM_AREA_M2 / calibration.metersPerUnit ** 2
+      : pageArea * MIN_ROOM_PAGE_FRACTION;
+    setIsDetecting(true);
+    // Let the button state paint before the synchronous detection pass.
+    setTimeout(() => {
+      const rooms = detectRooms(pdfSegments, pageArea, { minArea, maxPageFraction: 0.5, tolerance: 0.25 });
+      // Skip regions that are already traced.
+      const fresh = rooms.filter((rings) => !zones.some((zone) => pointInPolygons(interiorPoint(rings), zone.polygons)));
+      setRoomCandidates(fresh);
+      setHighlightedCandidate(null);
+      setIsDetecting(false);
+    }, 0);
+  };
+
+  // Accepted rooms are carved out of existing zones like a drawn "new" shape, holes included, so they never overlap.
+  const acceptRoomCandidates = (indices: number[]) => {
+    let withAccepted = zonesByPage;
+    indices.forEach((idx) => {
+      const rings = roomCandidates[idx];
+      const zone = createZone([rings], { name: nextZoneName(withAccepted) });
+      const carved = carveFromOthers(withAccepted[currentPage] ?? [], toTurfPolygon(rings), []);
+      withAccepted = { ...withAccepted, [currentPage]: [...carved.zones, zone] };
     });
-    console.log("Exported Zones JSON:\n", JSON.stringify(zoneData, null, 2));
-  }}
->
-  Export Zones
-</button>
+    commitZones(`Accept ${indices.length} room(s)`, withAccepted);
+    rejectRoomCandidates(indices);
+  };
+
+  const rejectRoomCandidates = (indices: number[]) => {
+    setRoomCandidates(roomCandidates.filter((_, idx) => !indices.includes(idx)));
+    setHighlightedCandidate(null);
+  };
+
+  // Reads the room names and numbers printed inside the zones, on every page that has zones.
+  const handleSuggestLabels = async () => {
+    setIsLabelling(true);
+    setLabelStatus(null);
+    try {
+      const pages = Object.keys(zonesByPage)
+        .map(Number)
+        .filter((page) => zonesByPage[page].length > 0)
+        .sort((a, b) => a - b);
+      const found: LabelSuggestion[] = [];
+      for (const page of pages) {
+        const texts = await extractPageText(await pdfDoc.getPage(page));
+        found.push(...suggestZoneLabels(page, zonesByPage[page], texts));
+      }
+      setLabelSuggestions(found);
+      setHighlightedSuggestion(null);
+      if (!found.length) setLabelStatus("No new zone labels found in the PDF text.");
+    } catch (err: unknown) {
+      console.error("Text extraction error:", err);
+      setLabelStatus(`Could not read the PDF text: ${(err as Error).message}`);
+    } finally {
+      setIsLabelling(false);
+    }
+  };
+
+  // All accepted labels land as one undo step; zones deleted since the scan are skipped.
+  const acceptLabelSuggestions = (zoneIds: string[]) => {
+    let next = zonesByPage;
+    const appliedByPage: Record<number, number> = {};
+    labelSuggestions
+      .filter((suggestion) => zoneIds.includes(suggestion.zoneId))
+      .forEach(({ page, zoneId, name, number }) => {
+        if (!next[page]?.some((zone) => zone.id === zoneId)) return;
+        const patch: ZonePatch = {};
+        if (name !== undefined) patch.name = name;
+        if (number !== undefined) patch.number = number;
+        next = { ...next, [page]: next[page].map((zone) => (zone.id === zoneId ? { ...zone, ...patch } : zone)) };
+        appliedByPage[page] = (appliedByPage[page] ?? 0) + 1;
+      });
+    commitZonesPerPage((page) => `Label ${appliedByPage[page]} zone(s) from PDF text`, next);
+    rejectLabelSuggestions(zoneIds);
+  };
+
+  const rejectLabelSuggestions = (zoneIds: string[]) => {
+    setLabelSuggestions(labelSuggestions.filter((suggestion) => !zoneIds.includes(suggestion.zoneId)));
+    setHighlightedSuggestion(null);
+  };
+
+  // Dropping the points being drawn is an undo step of its own, so Ctrl+Z brings them all back.
+  const discardDrawing = () => {
+    if (currentPolygon.length) commitEdit("Cancel drawing", { currentPolygon: [] });
+  };
+
+  const changeOperation = (nextOperation: ZoneOperation) => {
+    setPendingOperation(null);
+    setOperation(nextOperation);
+    // Split needs an open line, which only the polygon tool can draw.
+    if (nextOperation === "split") setDrawTool("polygon");
+    if (mode !== "draw") changeMode("draw");
+    else discardDrawing();
+  };
+
+  const changeDrawTool = (nextTool: DrawTool) => {
+    setDrawTool(nextTool);
+    if (mode !== "draw") changeMode("draw");
+    else discardDrawing();
+  };
+
+  const changeMode = (nextMode: EditorMode) => {
+    discardDrawing();
+    setPendingOperation(null);
+    setCalibrationLine([]);
+    setSelectedVertex(null);
+    setEditError(null);
+    setMode(nextMode);
+  };
 
+  const startCalibrationLine = () => {
+    discardDrawing();
+    setCalibrationLine([]);
+    setMode("calibrate");
+  };
+
+  const stopCalibrationLine = () => {
+    setCalibrationLine([]);
+    setMode("draw");
+  };
+
+  const applyCalibration = (newCalibration: Calibration, allPages: boolean) => {
+    if (allPages) {
+      const updated: CalibrationByPage = {};
+      for (let page = 1; page <= numPages; page++) updated[page] = newCalibration;
+      setCalibrations(updated);
+    } else {
+      setCalibrations({ ...calibrations, [currentPage]: newCalibration });
+    }
+    stopCalibrationLine();
+  };
+
+  // History travel sets the points itself, so only it may drop them without recording a step.
+  const goToPage = (pageNumber: number, fromHistory = false) => {
+    if (pageNumber < 1 || pageNumber > numPages || pageNumber === currentPage) return;
+    if (fromHistory) setCurrentPolygon([]);
+    else discardDrawing();
+    setCalibrationLine([]);
+    setRoomCandidates([]);
+    setPendingOperation(null);
+    setCurrentPage(pageNumber);
+  };
+
+  // The schedule and GeoJSON cover every page; the images are of the current page.
+  const handleExport = () => {
+    switch (exportFormat) {
+      case "geojson": {
+        const geojson = zonesToFeatureCollection(zonesByPage);
+        downloadBlob(new Blob([JSON.stringify(geojson, null, 2)], { type: "application/geo+json" }), "zones.geojson");
+        break;
+      }
+      case "csv":
+      case "tsv": {
+        const type = exportFormat === "csv" ? "text/csv" : "text/tab-separated-values";
+        // The BOM makes spreadsheet apps read the file as UTF-8 (units like m²).
+        const schedule = "\ufeff" + zoneSchedule(zonesByPage, calibrations, exportFormat);
+        downloadBlob(new Blob([schedule], { type }), `zone-schedule.${exportFormat}`);
+        break;
+      }
+      case "png": {
+        // The overlay also holds selection, handles, the grid and previews, so the zones are drawn afresh over the page.
+        const pdfLayer = pdfCanvasRef.current;
+        const viewport = viewportRef.current;
+        if (!pdfLayer || !viewport) return;
+        const image = document.createElement("canvas");
+        image.width = pdfLayer.width;
+        image.height = pdfLayer.height;
+        const ctx = image.getContext("2d");
+        if (!ctx) return;
+        ctx.drawImage(pdfLayer, 0, 0);
+        zones.forEach((zone) => drawZone(ctx, viewport, zone));
+        image.toBlob((blob) => blob && downloadBlob(blob, `page-${currentPage}.png`), "image/png");
+        break;
+      }
+      case "svg": {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+        const svg = zonesToSvg(zones, viewport, calibration);
+        downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `page-${currentPage}-zones.svg`);
+        break;
+      }
+    }
+  };
+
+  // Writes the zones into the loaded document itself rather than a side file.
+  const handleSavePdf = async () => {
+    setIsSavingPdf(true);
+    try {
+      const data: Uint8Array = await pdfDoc.getData();
+      const bytes = await exportAnnotatedPdf(data, zonesByPage, calibrations, pdfExportMode);
+      downloadBlob(new Blob([bytes], { type: "application/pdf" }), "annotated.pdf");
+      setFileError(null);
+    } catch (err: unknown) {
+      console.error("PDF export error:", err);
+      setFileError(`Save PDF failed: ${(err as Error).message}`);
+    } finally {
+      setIsSavingPdf(false);
+    }
+  };
+
+  const handleImportZones = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = featureCollectionToZones(JSON.parse(await file.text()), numPages);
+      commitEdit("Import zones", { zonesByPage: imported, currentPolygon: [] });
+      setSelectedZoneId(null);
+      setFileError(null);
+    } catch (err: unknown) {
+      const message = err instanceof SyntaxError ? "File is not valid JSON." : (err as Error).message;
+      setFileError(`Import failed: ${message}`);
+    }
+  };
+
+  const openStoredProject = async (fingerprint: string) => {
+    try {
+      const [data, session] = await Promise.all([loadDocument(fingerprint), loadSession(fingerprint)]);
+      if (!data || !session) throw new Error("The stored project is incomplete.");
+      resetDocumentState();
+      autoRestoreRef.current = fingerprint;
+      setDocumentSource({ name: session.fileName, data });
+    } catch (err: unknown) {
+      console.error("Project open error:", err);
+      setFileError(`Could not open project: ${(err as Error).message}`);
+    }
+  };
+
+  const deleteStoredSession = async (fingerprint: string) => {
+    await deleteSession(fingerprint).catch((err: unknown) => console.error("Session delete error:", err));
+    if (fingerprint === sessionKey) documentStoredRef.current = false;
+    setRecentVersion((v) => v + 1);
+  };
+
+  const clearStoredData = async () => {
+    if (!window.confirm("Delete every autosaved session and stored PDF from this browser?")) return;
+    await clearSessions().catch((err: unknown) => console.error("Session clear error:", err));
+    documentStoredRef.current = false;
+    setLastSavedAt(null);
+    setRecentVersion((v) => v + 1);
+  };
+
+  const handleImportMarkups = async (types: MarkupType[]) => {
+    setIsImportingMarkups(true);
+    try {
+      const result = await importMarkupZones(pdfDoc, types, zonesByPage);
+      if (result.imported > 0) commitZones(`Import ${result.imported} markup(s)`, result.zonesByPage);
+      const skipped = result.skipped ? `, ${result.skipped} skipped (no usable area)` : "";
+      setMarkupStatus(`${result.imported} markup(s) imported${skipped}.`);
+    } catch (err: unknown) {
+      console.error("Markup import error:", err);
+      setMarkupStatus(`Markup import failed: ${(err as Error).message}`);
+    } finally {
+      setIsImportingMarkups(false);
+    }
+  };
+
+  const snapIndicatorInView =
+    snapIndicator && viewportRef.current ? toViewportPoint(viewportRef.current, snapIndicator.point) : null;
+
+  const hoveredZone = zones.find((zone) => zone.id === hoveredZoneId);
+
+  const canvasLabel = [
+    `Page ${currentPage} of ${numPages}, ${zones.length} zone(s)`,
+    MODE_LABELS[mode],
+    currentPolygon.length ? `${currentPolygon.length} point(s) placed` : null,
+    selectedZone ? `${zoneLabel(selectedZone)} selected` : null,
+    "Press ? for keyboard shortcuts.",
+  ]
+    .filter(Boolean)
+    .join(". ");
+
+  const zoneCounts: Record<number, number> = {};
+  Object.keys(zonesByPage).forEach((page) => {
+    zoneCounts[Number(page)] = zonesByPage[Number(page)].length;
+  });
+
+  return (
+    <div
+      ref={rootRef}
+      className={className}
+      // Focusable by click, so clicking anywhere in the editor routes shortcuts to it.
+      tabIndex={-1}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      style={{
+        display: "flex",
+        alignItems: "flex-start",
+        outline: isDraggingFile ? "3px dashed #4682B4" : "none",
+        outlineOffset: "-3px",
+        ...styles?.root,
+      }}
+    >
+      <PageNavigator pdfDoc={pdfDoc} currentPage={currentPage} zoneCounts={zoneCounts} onSelectPage={goToPage} />
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ padding: "10px", display: "flex", gap: "10px", alignItems: "center", ...styles?.toolbar }}>
+          {!readOnly && (
+            <>
+              <button onClick={() => openInputRef.current?.click()} title="Open a PDF, or drop one onto the editor">
+                Open PDF
+              </button>
+              <input ref={openInputRef} type="file" accept=".pdf,application/pdf" onChange={handleOpenFile} style={{ display: "none" }} />
+            </>
+          )}
+          <button onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1} aria-label="Previous page">◀</button>
+          <span>Page {currentPage} of {numPages}</span>
+          <button onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= numPages} aria-label="Next page">▶</button>
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out" aria-label="Zoom out">−</button>
+          <span>{Math.round(scale * 100)}%</span>
+          <button onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in" aria-label="Zoom in">+</button>
+          <button onClick={fitToWidth} disabled={!pdfDoc}>Fit Width</button>
+          {!readOnly && (
+            <>
+              <button onClick={() => changeMode("view")} disabled={mode === "view"}>View</button>
+              <button onClick={() => changeMode("draw")} disabled={mode === "draw"}>Draw</button>
+              <button onClick={() => changeMode("edit")} disabled={mode === "edit"}>Edit Vertices</button>
+              {mode === "edit" && (
+                <button onClick={() => deleteSelectedVertex()} disabled={!selectedVertex}>Delete Vertex</button>
+              )}
+              {mode === "edit" && selectedZone?.shape && (
+                <button onClick={convertSelectedShape}>Convert to Polygon</button>
+              )}
+              <button onClick={handleDetectRooms} disabled={!pdfSegments.length || isDetecting}>
+                {isDetecting ? "Detecting…" : "Detect Rooms"}
+              </button>
+              <button onClick={handleSuggestLabels} disabled={!pdfDoc || isLabelling || !Object.values(zonesByPage).some((z) => z.length)}>
+                {isLabelling ? "Reading Labels…" : "Label from PDF Text"}
+              </button>
+              <label>
+                <input type="checkbox" checked={snapToPdf} onChange={(e) => setSnapToPdf(e.target.checked)} /> Snap to PDF lines
+              </label>
+              <button onClick={() => commitEdit("Clear points", { currentPolygon: [] })}>Clear Current Polygon</button>
+              <button onClick={handleUndo} disabled={history.past.length === 0}>Undo</button>
+              <button onClick={handleRedo} disabled={history.future.length === 0}>Redo</button>
+            </>
+          )}
+          <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+            {EXPORT_FORMATS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button onClick={handleExport} disabled={!pdfDoc}>Export</button>
+          {!readOnly && (
+            <>
+              <button onClick={() => importInputRef.current?.click()} disabled={!pdfDoc}>Import Zones</button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".geojson,.json,application/geo+json,application/json"
+                onChange={handleImportZones}
+                style={{ display: "none" }}
+              />
+            </>
+          )}
+          <select
+            value={pdfExportMode}
+            onChange={(e) => setPdfExportMode(e.target.value as PdfExportMode)}
+            disabled={isEncrypted}
+          >
+            {PDF_EXPORT_MODES.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleSavePdf}
+            disabled={!pdfDoc || isSavingPdf || isEncrypted}
+            title={isEncrypted ? ENCRYPTED_SAVE_MESSAGE : undefined}
+          >
+            {isSavingPdf ? "Saving…" : "Save PDF"}
+          </button>
+          {isEncrypted && <span style={{ color: "#777" }}>{ENCRYPTED_SAVE_MESSAGE}</span>}
+          <button onClick={() => setShowShortcuts(true)} title="Keyboard shortcuts (?)">Shortcuts</button>
+        </div>
+        {loadProgress && !passwordRequest && (
+          <div role="status" style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center" }}>
+            <span>Loading {documentSource?.name}…</span>
+            {loadProgress.total > 0 ? (
+              <progress value={loadProgress.loaded} max={loadProgress.total} />
+            ) : (
+              <span style={{ color: "#777" }}>{(loadProgress.loaded / 1024 / 1024).toFixed(1)} MB</span>
+            )}
+          </div>
+        )}
+        {passwordRequest && (
+          <PasswordPrompt
+            fileName={documentSource?.name ?? "This PDF"}
+            incorrect={passwordRequest.incorrect}
+            onSubmit={passwordRequest.submit}
+            onCancel={cancelPassword}
+          />
+        )}
+        {fileError && (
+          <div role="alert" style={{ padding: "0 10px 10px", color: "#c0392b" }}>
+            {fileError}
+          </div>
+        )}
+        {restorePrompt && (
+          <div style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center" }}>
+            <strong>Autosaved session found</strong>
+            <span>
+              {Object.values(restorePrompt.zonesByPage).flat().length} zone(s), saved {new Date(restorePrompt.savedAt).toLocaleString()}
+            </span>
+            <button onClick={() => restoreSession(restorePrompt)}>Restore</button>
+            <button
+              onClick={() => {
+                setRestorePrompt(null);
+                setSessionKey(restorePrompt.fingerprint);
+              }}
+            >
+              Start Fresh
+            </button>
+          </div>
+        )}
+        {!readOnly && (
+          <>
+            <div style={{ padding: "0 10px 10px", display: "flex", gap: "6px", alignItems: "center" }}>
+              <strong>Operation:</strong>
+              {ZONE_OPERATIONS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => changeOperation(value)}
+                  style={{ fontWeight: operation === value ? "bold" : "normal", background: operation === value ? "#cfe3ef" : undefined }}
+                >
+                  {label}
+                </button>
+              ))}
+              <strong>Tool:</strong>
+              {[{ value: "polygon" as DrawTool, label: "Polygon" }, ...SHAPE_TYPES].map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => changeDrawTool(value)}
+                  disabled={value !== "polygon" && operation === "split"}
+                  style={{ fontWeight: drawTool === value ? "bold" : "normal", background: drawTool === value ? "#cfe3ef" : undefined }}
+                >
+                  {label}
+                </button>
+              ))}
+              <span style={{ color: "#777" }}>
+                {drawTool !== "polygon" ? "Click two opposite corners. " : ""}
+                {operation === "split" ? "Draw a line across a zone, double-click or long-press to finish. " : ""}
+                {operation !== "new" && (selectedZone ? `Target: ${selectedZone.name || "selected zone"}` : "Target: every zone the shape touches")}
+              </span>
+            </div>
+            {pendingOperation && (
+              <div style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center" }}>
+                <strong>Preview:</strong> {pendingOperation.summary}
+                <button onClick={applyPendingOperation} disabled={pendingOperation.changedIds.length === 0}>Apply</button>
+                <button onClick={() => setPendingOperation(null)}>Cancel</button>
+              </div>
+            )}
+            <DrawingAidsControls
+              gridEnabled={gridEnabled}
+              gridSpacing={gridSpacing}
+              unit={calibration?.displayUnit ?? "pt"}
+              angleReference={angleReference}
+              onGridEnabledChange={setGridEnabled}
+              onGridSpacingChange={setGridSpacing}
+              onAngleReferenceChange={setAngleReference}
+            />
+            {mode === "draw" && !pendingOperation && (
+              <CoordinateEntry
+                unit={calibration?.displayUnit ?? "pt"}
+                canBeRelative={currentPolygon.length > 0}
+                disabled={!pdfDoc}
+                onAdd={addTypedPoint}
+              />
+            )}
+          </>
+        )}
+        {editError && (
+          <div role="alert" style={{ padding: "0 10px 10px", color: "#c0392b" }}>
+            {editError}
+          </div>
+        )}
+        {roomCandidates.length > 0 && (
+          <RoomCandidatesPanel
+            candidates={roomCandidates}
+            calibration={calibration}
+            highlighted={highlightedCandidate}
+            onHighlight={setHighlightedCandidate}
+            onAccept={acceptRoomCandidates}
+            onReject={rejectRoomCandidates}
+          />
+        )}
+        {labelSuggestions.length > 0 && (
+          <LabelSuggestionsPanel
+            suggestions={labelSuggestions}
+            zonesByPage={zonesByPage}
+            highlighted={highlightedSuggestion}
+            onHighlight={setHighlightedSuggestion}
+            onAccept={acceptLabelSuggestions}
+            onReject={rejectLabelSuggestions}
+          />
+        )}
+        {labelStatus && <div style={{ padding: "0 10px 10px", color: "#555" }}>{labelStatus}</div>}
+        {!readOnly && (
+          <>
+            <MarkupImportControls
+              disabled={!pdfDoc}
+              isImporting={isImportingMarkups}
+              status={markupStatus}
+              onImport={handleImportMarkups}
+            />
+            <CalibrationControls
+              calibration={calibration}
+              isMeasuring={mode === "calibrate"}
+              lineLength={calibrationLine.length === 2 ? distance(calibrationLine[0], calibrationLine[1]) : null}
+              onStartLine={startCalibrationLine}
+              onCancelLine={stopCalibrationLine}
+              onApply={applyCalibration}
+            />
+          </>
+        )}
+        {calibrationLine.length === 2 && calibration && (
+          <div style={{ padding: "0 10px 10px" }}>
+            Measured: {formatLength(distance(calibrationLine[0], calibrationLine[1]), calibration)}
+          </div>
+        )}
+        <div ref={containerRef} style={{ overflow: "auto", maxHeight: "80vh", ...styles?.canvas }}>
+          <div style={{ position: "relative", display: "inline-block" }}>
+            <canvas ref={pdfCanvasRef} aria-hidden="true" style={{ display: "block", border: "1px solid gray" }} />
+            <canvas
+              ref={canvasRef}
+              onDoubleClick={handleCanvasDoubleClick}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onPointerLeave={clearHover}
+              tabIndex={0}
+              role="application"
+              aria-roledescription="plan editor"
+              aria-label={canvasLabel}
+              style={{
+                position: "absolute",
+                left: 0,
+                top: 0,
+                // Transparent, so the overlay lines up with the bordered page canvas underneath.
+                border: "1px solid transparent",
+                cursor: isPanning ? "grabbing" : "crosshair",
+                // Touch gestures are handled here instead of scrolling or zooming the page.
+                touchAction: "none",
+              }}
+            />
+            <div
+              ref={tooltipRef}
+              role="tooltip"
+              style={{
+                position: "absolute",
+                display: hoveredZone ? "block" : "none",
+                pointerEvents: "none",
+                background: "rgba(27, 58, 75, 0.9)",
+                color: "white",
+                padding: "4px 8px",
+                borderRadius: "4px",
+                fontSize: "12px",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {hoveredZone && (
+                <>
+                  <strong>{zoneLabel(hoveredZone)}</strong>
+                  <div>
+                    {categoryLabel(hoveredZone.category)} · {formatArea(zoneArea(hoveredZone), calibration)}
+                  </div>
+                </>
+              )}
+            </div>
+            {snapIndicatorInView && snapIndicator && (
+              <div
+                title={`Snap: ${snapIndicator.kind}`}
+                style={{
+                  position: "absolute",
+                  // +1 for the canvas border.
+                  left: snapIndicatorInView.x + 1 - SNAP_INDICATOR_SIZE / 2,
+                  top: snapIndicatorInView.y + 1 - SNAP_INDICATOR_SIZE / 2,
+                  width: SNAP_INDICATOR_SIZE,
+                  height: SNAP_INDICATOR_SIZE,
+                  boxSizing: "border-box",
+                  border: `2px solid ${SNAP_COLORS[snapIndicator.kind]}`,
+                  borderRadius: snapIndicator.kind === "vertex" ? 0 : "50%",
+                  pointerEvents: "none",
+                }}
+              />
+            )}
+          </div>
+        </div>
+        <div aria-live="polite" style={VISUALLY_HIDDEN}>
+          {announcement}
+        </div>
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: "10px", ...styles?.sidebar }}>
+        <ZoneSearch zonesByPage={zonesByPage} inputRef={searchInputRef} onFind={fitToZone} />
+        <ZoneInspector
+          zones={zones}
+          calibration={calibration}
+          selectedZoneId={selectedZoneId}
+          readOnly={readOnly}
+          onSelect={setSelectedZoneId}
+          onUpdate={updateZone}
+          onDelete={deleteZone}
+        />
+        {!readOnly && (
+          <>
+            <GeometryIssuesPanel
+              issues={geometryIssues}
+              activeKey={activeIssueKey}
+              disabled={!Object.values(zonesByPage).some((pageZones) => pageZones.length)}
+              onCheck={checkGeometry}
+              onSelect={selectIssue}
+              onFix={fixGeometryIssue}
+            />
+            <HistoryPanel history={history} onJump={jumpToHistory} />
+            <RecentProjectsPanel
+              sessions={recentSessions}
+              currentFingerprint={pdfDoc ? documentFingerprint(pdfDoc) : null}
+              lastSavedAt={lastSavedAt}
+              onOpen={openStoredProject}
+              onDelete={deleteStoredSession}
+              onClearAll={clearStoredData}
+            />
+          </>
+        )}
       </div>
-      <canvas
-        ref={canvasRef}
-        onClick={handleCanvasClick}
-        onDoubleClick={handleCanvasDoubleClick}
-        style={{ border: "1px solid gray", cursor: "crosshair" }}
-      />
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
     </div>
   );
 };
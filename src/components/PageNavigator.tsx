@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from "react";
+
+const THUMBNAIL_WIDTH = 120;
+// Height of a thumbnail not yet rendered, as a share of its width (a landscape sheet).
+const PLACEHOLDER_ASPECT = 0.7;
+// Thumbnails start rendering a little before they scroll into view.
+const PRELOAD_MARGIN = "200px";
+
+interface PageThumbnailProps {
+  pdfDoc: any;
+  pageNumber: number;
+}
+
+// Renders only once scrolled near, so opening a large sheet set doesn't start a render per page at once.
+const PageThumbnail: React.FC<PageThumbnailProps> = ({ pdfDoc, pageNumber }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isNearView, setIsNearView] = useState(typeof IntersectionObserver === "undefined");
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (isNearView || !canvas) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setIsNearView(true);
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [isNearView]);
+
+  useEffect(() => {
+    if (!isNearView) return;
+    let renderTask: any = null;
+    let cancelled = false;
+
+    const renderThumbnail = async () => {
+      const page = await pdfDoc.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      if (cancelled || !canvas || !ctx) return;
+
+      const scale = THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+
+      renderTask = page.render({ canvasContext: ctx, viewport });
+      try {
+        await renderTask.promise;
+      } catch (err: unknown) {
+        const error = err as { name?: string };
+        if (error.name !== "RenderingCancelledException") {
+          console.error(`Thumbnail render error (page ${pageNumber}):`, err);
+        }
+      }
+    };
+    renderThumbnail();
+
+    return () => {
+      cancelled = true;
+      if (renderTask) renderTask.cancel();
+    };
+  }, [pdfDoc, pageNumber, isNearView]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={THUMBNAIL_WIDTH}
+      height={Math.round(THUMBNAIL_WIDTH * PLACEHOLDER_ASPECT)}
+      style={{ display: "block", width: THUMBNAIL_WIDTH }}
+    />
+  );
+};
+
+interface PageNavigatorProps {
+  pdfDoc: any;
+  currentPage: number;
+  zoneCounts: Record<number, number>;
+  onSelectPage: (pageNumber: number) => void;
+}
+
+const PageNavigator: React.FC<PageNavigatorProps> = ({ pdfDoc, currentPage, zoneCounts, onSelectPage }) => {
+  const pageNumbers = Array.from({ length: pdfDoc?.numPages ?? 0 }, (_, i) => i + 1);
+
+  return (
+    <div style={{ width: THUMBNAIL_WIDTH + 20, maxHeight: "90vh", overflowY: "auto", padding: "10px" }}>
+      {pageNumbers.map((pageNumber) => (
+        <div
+          key={pageNumber}
+          onClick={() => onSelectPage(pageNumber)}
+          title={`Page ${pageNumber}`}
+          style={{
+            marginBottom: "10px",
+            cursor: "pointer",
+            border: pageNumber === currentPage ? "2px solid #4682B4" : "2px solid transparent",
+          }}
+        >
+          <PageThumbnail pdfDoc={pdfDoc} pageNumber={pageNumber} />
+          <div style={{ fontSize: "12px", textAlign: "center" }}>
+            {pageNumber}
+            {zoneCounts[pageNumber] ? ` · ${zoneCounts[pageNumber]} zone${zoneCounts[pageNumber] > 1 ? "s" : ""}` : ""}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PageNavigator;
@@ -0,0 +1,43 @@
+import React, { useState } from "react";
+
+interface PasswordPromptProps {
+  fileName: string;
+  // Set after a wrong password, so the prompt can say so.
+  incorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+const PasswordPrompt: React.FC<PasswordPromptProps> = ({ fileName, incorrect, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState("");
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(password);
+    setPassword("");
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      aria-label="PDF password"
+      style={{ padding: "0 10px 10px", display: "flex", gap: "10px", alignItems: "center" }}
+    >
+      <strong>{fileName} is password-protected</strong>
+      {incorrect && (
+        <span role="alert" style={{ color: "#c0392b" }}>
+          Incorrect password, try again.
+        </span>
+      )}
+      <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} aria-label="Password" autoFocus />
+      <button type="submit" disabled={!password}>
+        Open
+      </button>
+      <button type="button" onClick={onCancel}>
+        Cancel
+      </button>
+    </form>
+  );
+};
+
+export default PasswordPrompt;
@@ -0,0 +1,77 @@
+import React from "react";
+import { SessionSummary } from "../utils/sessionStore";
+
+interface RecentProjectsPanelProps {
+  sessions: SessionSummary[];
+  currentFingerprint: string | null;
+  lastSavedAt: number | null;
+  onOpen: (fingerprint: string) => void;
+  onDelete: (fingerprint: string) => void;
+  onClearAll: () => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+const RecentProjectsPanel: React.FC<RecentProjectsPanelProps> = ({
+  sessions,
+  currentFingerprint,
+  lastSavedAt,
+  onOpen,
+  onDelete,
+  onClearAll,
+}) => (
+  <div
+    style={{
+      width: "260px",
+      padding: "10px",
+      border: "1px solid #ddd",
+      borderRadius: "8px",
+      maxHeight: "30vh",
+      overflowY: "auto",
+    }}
+  >
+    <h3 style={{ marginTop: 0, fontSize: "16px" }}>Recent projects</h3>
+    <div style={{ color: "#777", marginBottom: "6px" }}>
+      {lastSavedAt ? `Autosaved ${new Date(lastSavedAt).toLocaleTimeString()}` : "Changes are saved in this browser automatically."}
+    </div>
+    {sessions.length === 0 && <div style={{ color: "#777" }}>No saved sessions.</div>}
+    {sessions.map((session) => {
+      const isCurrent = session.fingerprint === currentFingerprint;
+      return (
+        <div
+          key={session.fingerprint}
+          style={{
+            marginBottom: "6px",
+            padding: "6px",
+            border: isCurrent ? "2px solid #4682B4" : "1px solid #eee",
+            borderRadius: "5px",
+          }}
+        >
+          <strong style={{ wordBreak: "break-all" }}>{session.fileName}</strong>
+          <div style={{ color: "#777" }}>
+            {session.zoneCount} zone(s) · {formatTime(session.savedAt)}
+          </div>
+          <div style={{ display: "flex", gap: "6px", marginTop: "4px" }}>
+            {!isCurrent && (
+              <button
+                onClick={() => onOpen(session.fingerprint)}
+                disabled={!session.hasDocument}
+                title={session.hasDocument ? undefined : "The PDF itself wasn't stored; open the file to restore this session."}
+              >
+                Open
+              </button>
+            )}
+            <button onClick={() => onDelete(session.fingerprint)}>Delete</button>
+          </div>
+        </div>
+      );
+    })}
+    {sessions.length > 0 && (
+      <button onClick={onClearAll} style={{ color: "#c0392b" }}>
+        Clear Stored Data
+      </button>
+    )}
+  </div>
+);
+
+export default RecentProjectsPanel;
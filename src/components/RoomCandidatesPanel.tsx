@@ -0,0 +1,59 @@
+import React from "react";
+import { PolygonRings } from "../types/zones";
+import { polygonArea } from "../utils/geometry";
+import { Calibration, formatArea } from "../utils/measurement";
+
+interface RoomCandidatesPanelProps {
+  candidates: PolygonRings[];
+  calibration?: Calibration;
+  highlighted: number | null;
+  onHighlight: (index: number | null) => void;
+  onAccept: (indices: number[]) => void;
+  onReject: (indices: number[]) => void;
+}
+
+const RoomCandidatesPanel: React.FC<RoomCandidatesPanelProps> = ({
+  candidates,
+  calibration,
+  highlighted,
+  onHighlight,
+  onAccept,
+  onReject,
+}) => {
+  const all = candidates.map((_, idx) => idx);
+
+  return (
+    <div style={{ padding: "0 10px 10px" }}>
+      <div style={{ display: "flex", gap: "10px", alignItems: "center", marginBottom: "6px" }}>
+        <strong>{candidates.length} room candidate(s)</strong>
+        <button onClick={() => onAccept(all)}>Accept All</button>
+        <button onClick={() => onReject(all)}>Reject All</button>
+      </div>
+      <div style={{ display: "flex", gap: "6px", flexWrap: "wrap", maxHeight: "120px", overflowY: "auto" }}>
+        {candidates.map((rings, idx) => (
+          <div
+            key={idx}
+            onMouseEnter={() => onHighlight(idx)}
+            onMouseLeave={() => onHighlight(null)}
+            style={{
+              padding: "4px 6px",
+              border: highlighted === idx ? "2px solid orange" : "1px solid #ddd",
+              borderRadius: "5px",
+              display: "flex",
+              gap: "4px",
+              alignItems: "center",
+            }}
+          >
+            <span>
+              #{idx + 1} · {formatArea(polygonArea(rings), calibration)}
+            </span>
+            <button onClick={() => onAccept([idx])} title="Accept">✓</button>
+            <button onClick={() => onReject([idx])} title="Reject">✕</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RoomCandidatesPanel;
@@ -0,0 +1,71 @@
+import React from "react";
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+const SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: "Enter", action: "Close the shape, or apply the previewed operation" },
+  { keys: "Esc", action: "Cancel the preview, the drawing or the selection" },
+  { keys: "Backspace", action: "Remove the last point (edit mode: the selected vertex)" },
+  { keys: "Delete", action: "Delete the selected vertex, or the selected zone" },
+  { keys: "Ctrl+Z", action: "Undo" },
+  { keys: "Ctrl+Y / Ctrl+Shift+Z", action: "Redo" },
+  { keys: "Arrow keys", action: "Nudge the selected vertex or zone 1 px (Shift: 10 px)" },
+  { keys: "[ / ]", action: "Select the previous / next zone" },
+  { keys: ", / .", action: "Select the previous / next vertex (edit mode)" },
+  { keys: "Page Up / Page Down", action: "Previous / next page" },
+  { keys: "V / D / E", action: "View, draw or edit vertices mode" },
+  { keys: "/", action: "Find a zone by name" },
+  { keys: "P / R / O / T", action: "Polygon, rectangle, circle, triangle tool" },
+  { keys: "1 – 5", action: "New zone, union, subtract, intersect, split" },
+  { keys: "+ / − / 0", action: "Zoom in / out / fit width" },
+  { keys: "S", action: "Toggle snapping to PDF lines" },
+  { keys: "G", action: "Toggle snapping to the grid" },
+  { keys: "Shift + click", action: "Lock the new segment to 45° steps" },
+  { keys: "?", action: "Show or hide this list" },
+];
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => (
+  <div
+    onClick={onClose}
+    style={{
+      position: "fixed",
+      inset: 0,
+      background: "rgba(0,0,0,0.3)",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      zIndex: 10,
+    }}
+  >
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shortcut-help-title"
+      onClick={(e) => e.stopPropagation()}
+      style={{ background: "white", padding: "16px", borderRadius: "8px", minWidth: "360px" }}
+    >
+      <h3 id="shortcut-help-title" style={{ marginTop: 0, fontSize: "16px" }}>
+        Keyboard shortcuts
+      </h3>
+      <table style={{ borderCollapse: "collapse", marginBottom: "10px" }}>
+        <tbody>
+          {SHORTCUTS.map(({ keys, action }) => (
+            <tr key={keys}>
+              <td style={{ padding: "3px 12px 3px 0", whiteSpace: "nowrap" }}>
+                <kbd>{keys}</kbd>
+              </td>
+              <td style={{ padding: "3px 0" }}>{action}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={onClose} autoFocus>
+        Close
+      </button>
+    </div>
+  </div>
+);
+
+export default ShortcutHelp;
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from "react";
+import { Zone, ZoneCategory } from "../types/zones";
+import { Calibration, formatArea, formatLength, zoneArea, zonePerimeter } from "../utils/measurement";
+import { categoryLabel, ZONE_CATEGORIES, zoneColor, zoneTitle } from "../utils/zones";
+
+export type ZonePatch = Partial<Omit<Zone, "id" | "polygons" | "shape">>;
+
+interface ZoneEditorProps {
+  zone: Zone;
+  onUpdate: (id: string, patch: ZonePatch) => void;
+  onDelete: (id: string) => void;
+}
+
+// Text fields are committed on blur so a rename is one undo step, not one per keystroke.
+const ZoneEditor: React.FC<ZoneEditorProps> = ({ zone, onUpdate, onDelete }) => {
+  const [name, setName] = useState(zone.name);
+  const [number, setNumber] = useState(zone.number ?? "");
+  const [notes, setNotes] = useState(zone.notes);
+
+  useEffect(() => setName(zone.name), [zone.name]);
+  useEffect(() => setNumber(zone.number ?? ""), [zone.number]);
+  useEffect(() => setNotes(zone.notes), [zone.notes]);
+
+  const commitName = () => {
+    if (name !== zone.name) onUpdate(zone.id, { name });
+  };
+
+  const commitNumber = () => {
+    if (number !== (zone.number ?? "")) onUpdate(zone.id, { number: number || undefined });
+  };
+
+  const commitNotes = () => {
+    if (notes !== zone.notes) onUpdate(zone.id, { notes });
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "6px", marginTop: "6px" }} onClick={(e) => e.stopPropagation()}>
+      <label>
+        Name
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === "Enter" && commitName()}
+          style={{ width: "100%" }}
+        />
+      </label>
+      <label>
+        Number
+        <input
+          value={number}
+          onChange={(e) => setNumber(e.target.value)}
+          onBlur={commitNumber}
+          onKeyDown={(e) => e.key === "Enter" && commitNumber()}
+          style={{ width: "100%" }}
+        />
+      </label>
+      <label>
+        Category
+        <select
+          value={zone.category}
+          onChange={(e) => onUpdate(zone.id, { category: e.target.value as ZoneCategory })}
+          style={{ width: "100%" }}
+        >
+          {ZONE_CATEGORIES.map((category) => (
+            <option key={category.value} value={category.value}>
+              {category.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+        <label>
+          Color <input type="color" value={zoneColor(zone)} onChange={(e) => onUpdate(zone.id, { color: e.target.value })} />
+        </label>
+        {zone.color && <button onClick={() => onUpdate(zone.id, { color: undefined })}>Use category color</button>}
+      </div>
+      <label>
+        Notes
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} onBlur={commitNotes} rows={3} style={{ width: "100%" }} />
+      </label>
+      <button onClick={() => onDelete(zone.id)} style={{ alignSelf: "flex-start", color: "#c0392b" }}>
+        Delete Zone
+      </button>
+    </div>
+  );
+};
+
+interface ZoneInspectorProps {
+  zones: Zone[];
+  calibration?: Calibration;
+  selectedZoneId: string | null;
+  // Hides the editor, so zones can be inspected but not changed.
+  readOnly?: boolean;
+  onSelect: (id: string | null) => void;
+  onUpdate: (id: string, patch: ZonePatch) => void;
+  onDelete: (id: string) => void;
+}
+
+const holeCount = (zone: Zone) => zone.polygons.reduce((sum, rings) => sum + rings.length - 1, 0);
+
+const ZoneInspector: React.FC<ZoneInspectorProps> = ({
+  zones,
+  calibration,
+  selectedZoneId,
+  readOnly = false,
+  onSelect,
+  onUpdate,
+  onDelete,
+}) => {
+  const totalArea = zones.reduce((sum, zone) => sum + zoneArea(zone), 0);
+
+  return (
+    <div
+      style={{
+        width: "260px",
+        padding: "10px",
+        border: "1px solid #ddd",
+        borderRadius: "8px",
+        maxHeight: "90vh",
+        overflowY: "auto",
+      }}
+    >
+      <h3 style={{ marginTop: 0, fontSize: "16px" }}>Zones</h3>
+      {zones.length === 0 && <div style={{ color: "#777" }}>No zones on this page.</div>}
+      <div role="list" aria-label="Zones on this page">
+        {zones.map((zone) => {
+          const selected = zone.id === selectedZoneId;
+          return (
+            <div
+              key={zone.id}
+              role="listitem"
+              onClick={() => onSelect(selected ? null : zone.id)}
+              style={{
+                marginBottom: "8px",
+                padding: "6px",
+                border: selected ? "2px solid #4682B4" : "1px solid #eee",
+                borderRadius: "5px",
+                cursor: "pointer",
+              }}
+            >
+              {/* Keyboard access to the card; its click bubbles up to the card handler. */}
+              <button
+                type="button"
+                aria-expanded={selected}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "6px",
+                  width: "100%",
+                  padding: 0,
+                  border: "none",
+                  background: "none",
+                  font: "inherit",
+                  textAlign: "left",
+                  cursor: "pointer",
+                }}
+              >
+                <span aria-hidden="true" style={{ width: "12px", height: "12px", background: zoneColor(zone), display: "inline-block" }} />
+                <strong>{zoneTitle(zone) || "Unnamed zone"}</strong>
+              </button>
+              <div style={{ color: "#777" }}>{categoryLabel(zone.category)}</div>
+              <div>Area: {formatArea(zoneArea(zone), calibration)}</div>
+              <div>Perimeter: {formatLength(zonePerimeter(zone), calibration)}</div>
+              {zone.polygons.length > 1 && <div style={{ color: "#777" }}>{zone.polygons.length} separate parts</div>}
+              {holeCount(zone) > 0 && <div style={{ color: "#777" }}>{holeCount(zone)} hole(s) excluded</div>}
+              {selected && !readOnly && <ZoneEditor zone={zone} onUpdate={onUpdate} onDelete={onDelete} />}
+            </div>
+          );
+        })}
+      </div>
+      {zones.length > 0 && (
+        <div style={{ borderTop: "1px solid #ddd", paddingTop: "6px" }}>
+          <strong>Total: {formatArea(totalArea, calibration)}</strong>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZoneInspector;
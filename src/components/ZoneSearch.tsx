@@ -0,0 +1,64 @@
+import React, { useState } from "react";
+import { ZonesByPage } from "../types/zones";
+import { categoryLabel, searchZones, zoneColor, zoneTitle } from "../utils/zones";
+
+interface ZoneSearchProps {
+  zonesByPage: ZonesByPage;
+  inputRef?: React.Ref<HTMLInputElement>;
+  onFind: (id: string) => void;
+}
+
+const MAX_RESULTS = 20;
+
+const ZoneSearch: React.FC<ZoneSearchProps> = ({ zonesByPage, inputRef, onFind }) => {
+  const [query, setQuery] = useState("");
+  const results = searchZones(zonesByPage, query);
+
+  return (
+    <div style={{ width: "260px", padding: "10px", border: "1px solid #ddd", borderRadius: "8px" }}>
+      <h3 style={{ marginTop: 0, fontSize: "16px" }}>Find zone</h3>
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        placeholder="Zone name"
+        aria-label="Find zone by name"
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && results.length > 0 && onFind(results[0].zone.id)}
+        style={{ width: "100%", boxSizing: "border-box" }}
+      />
+      {query.trim() && results.length === 0 && <div style={{ color: "#777", marginTop: "6px" }}>No matching zones.</div>}
+      {results.length > 0 && (
+        <div role="list" aria-label="Matching zones" style={{ marginTop: "6px", maxHeight: "20vh", overflowY: "auto" }}>
+          {results.slice(0, MAX_RESULTS).map(({ page, zone }) => (
+            <div key={zone.id} role="listitem">
+              <button
+                onClick={() => onFind(zone.id)}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "6px",
+                  width: "100%",
+                  padding: "3px 0",
+                  border: "none",
+                  background: "none",
+                  font: "inherit",
+                  textAlign: "left",
+                  cursor: "pointer",
+                }}
+              >
+                <span aria-hidden="true" style={{ width: "10px", height: "10px", background: zoneColor(zone), display: "inline-block" }} />
+                <span>
+                  {zoneTitle(zone)} <span style={{ color: "#777" }}>· {categoryLabel(zone.category)} · p. {page}</span>
+                </span>
+              </button>
+            </div>
+          ))}
+          {results.length > MAX_RESULTS && <div style={{ color: "#777" }}>{results.length - MAX_RESULTS} more…</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZoneSearch;
@@ -0,0 +1,43 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// An outer ring followed by any hole rings.
+export type PolygonRings = Point[][];
+
+export type ShapeType = "rectangle" | "circle" | "triangle";
+
+// Axis-aligned box in PDF user space; (x, y) is the lower-left corner.
+export interface ShapeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ZoneShape {
+  type: ShapeType;
+  rect: ShapeRect;
+}
+
+export type ZoneCategory = "unassigned" | "office" | "circulation" | "wet-area" | "storage" | "plant";
+
+export interface Zone {
+  id: string;
+  name: string;
+  // Room number as printed on the plan, e.g. "BR-02".
+  number?: string;
+  category: ZoneCategory;
+  // Overrides the category color when set.
+  color?: string;
+  notes: string;
+  // One entry per disjoint part, so a zone can be a MultiPolygon.
+  polygons: PolygonRings[];
+  // The primitive the zone was drawn from. Kept only while the geometry is
+  // still exactly that shape, so the zone can be resized by its corners.
+  shape?: ZoneShape;
+}
+
+// Zones keyed by 1-based PDF page number.
+export type ZonesByPage = Record<number, Zone[]>;
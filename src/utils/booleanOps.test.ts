@@ -0,0 +1,119 @@
+import { featureCollection, intersect } from "@turf/turf";
+import { MultiPolygon, Polygon } from "geojson";
+import { Point, Zone } from "../types/zones";
+import { applyZoneOperation } from "./booleanOps";
+import { fromTurfGeometry, polygonArea, toTurfGeometry } from "./geometry";
+import { createZone } from "./zones";
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+  { x, y },
+];
+
+const zoneArea = (zone: Zone) => zone.polygons.reduce((sum, rings) => sum + polygonArea(rings), 0);
+
+const overlapArea = (a: Zone, b: Zone) =>
+  fromTurfGeometry(
+    intersect(featureCollection<Polygon | MultiPolygon>([toTurfGeometry(a.polygons), toTurfGeometry(b.polygons)]))?.geometry
+  ).reduce((sum, rings) => sum + polygonArea(rings), 0);
+
+const expectNoOverlaps = (zones: Zone[]) =>
+  zones.forEach((a, i) => zones.slice(i + 1).forEach((b) => expect(overlapArea(a, b)).toBeCloseTo(0)));
+
+const byId = (zones: Zone[], id: string) => zones.find((zone) => zone.id === id);
+
+describe("applyZoneOperation", () => {
+  // Two 100 × 100 rooms side by side with a 10 pt gap between them.
+  const left = createZone([[rect(0, 0, 100, 100)]], { name: "Left" });
+  const right = createZone([[rect(110, 0, 100, 100)]], { name: "Right" });
+  const zones = [left, right];
+  // Straddles both rooms: 40 pt into each.
+  const bridge = rect(60, 20, 90, 60);
+  const newZone = createZone([[bridge]], { name: "New" });
+
+  test("new keeps its full shape and cuts it out of both zones", () => {
+    const result = applyZoneOperation("new", bridge, zones, null, newZone);
+    expect(result.zones).toHaveLength(3);
+    expect(zoneArea(byId(result.zones, newZone.id)!)).toBeCloseTo(90 * 60);
+    expect(zoneArea(byId(result.zones, left.id)!)).toBeCloseTo(10000 - 40 * 60);
+    expect(zoneArea(byId(result.zones, right.id)!)).toBeCloseTo(10000 - 40 * 60);
+    expect(result.changedIds).toEqual([left.id, right.id, newZone.id]);
+    expectNoOverlaps(result.zones);
+  });
+
+  test("union merges both zones and the shape into the first one", () => {
+    const result = applyZoneOperation("union", bridge, zones, null, newZone);
+    expect(result.zones.map((zone) => zone.id)).toEqual([left.id]);
+    expect(result.zones[0].polygons).toHaveLength(1);
+    expect(zoneArea(result.zones[0])).toBeCloseTo(20000 + 10 * 60);
+  });
+
+  test("union with a target grows only that zone and carves the neighbor", () => {
+    const result = applyZoneOperation("union", bridge, zones, left.id, newZone);
+    expect(zoneArea(byId(result.zones, left.id)!)).toBeCloseTo(10000 + 50 * 60);
+    expect(zoneArea(byId(result.zones, right.id)!)).toBeCloseTo(10000 - 40 * 60);
+    expect(result.changedIds).toEqual([left.id, right.id]);
+    expectNoOverlaps(result.zones);
+  });
+
+  test("subtract removes the shape from every zone it touches", () => {
+    const result = applyZoneOperation("subtract", bridge, zones, null, newZone);
+    expect(result.zones.map(zoneArea).map(Math.round)).toEqual([10000 - 40 * 60, 10000 - 40 * 60]);
+  });
+
+  test("intersect keeps only the part inside the shape", () => {
+    const result = applyZoneOperation("intersect", bridge, zones, null, newZone);
+    expect(result.zones.map(zoneArea).map(Math.round)).toEqual([40 * 60, 40 * 60]);
+  });
+
+  test("subtracting a band across a zone leaves a MultiPolygon", () => {
+    const band = rect(40, -10, 20, 120);
+    const result = applyZoneOperation("subtract", band, zones, left.id, newZone);
+    const cut = byId(result.zones, left.id)!;
+    expect(cut.polygons).toHaveLength(2);
+    expect(zoneArea(cut)).toBeCloseTo(10000 - 20 * 100);
+    expect(byId(result.zones, right.id)).toBe(right);
+  });
+
+  test("a new zone inside an existing one becomes a hole in it", () => {
+    const closet = rect(30, 30, 20, 20);
+    const inner = createZone([[closet]], { name: "Closet" });
+    const result = applyZoneOperation("new", closet, zones, null, inner);
+    const outer = byId(result.zones, left.id)!;
+    expect(outer.polygons).toHaveLength(1);
+    expect(outer.polygons[0]).toHaveLength(2);
+    expect(zoneArea(outer)).toBeCloseTo(10000 - 400);
+    expect(byId(result.zones, right.id)).toBe(right);
+    expectNoOverlaps(result.zones);
+  });
+
+  test("split cuts a holed zone into two pieces that keep their halves of the hole", () => {
+    const holed = createZone([[rect(0, 0, 100, 100), rect(40, 40, 20, 20)]], { name: "Hall", category: "circulation" });
+    const line = [
+      { x: 50, y: -10 },
+      { x: 50, y: 110 },
+    ];
+    const result = applyZoneOperation("split", line, [holed], null, newZone);
+    expect(result.zones).toHaveLength(2);
+    result.zones.forEach((zone) => {
+      expect(zone.polygons).toHaveLength(1);
+      expect(zoneArea(zone)).toBeCloseTo((10000 - 400) / 2);
+    });
+    expect(result.zones[0].id).toBe(holed.id);
+    expect(result.zones[1]).toMatchObject({ name: "Hall (2)", category: "circulation" });
+    expectNoOverlaps(result.zones);
+  });
+
+  test("split with a line that misses leaves the zones alone", () => {
+    const line = [
+      { x: 300, y: 0 },
+      { x: 300, y: 100 },
+    ];
+    const result = applyZoneOperation("split", line, zones, null, newZone);
+    expect(result.zones).toEqual(zones);
+    expect(result.summary).toBe("Line does not cut any zone");
+  });
+});
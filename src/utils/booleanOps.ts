@@ -0,0 +1,185 @@
+import { booleanIntersects, difference, featureCollection, intersect, union } from "@turf/turf";
+import { Point, PolygonRings, Zone } from "../types/zones";
+import { Feature, MultiPolygon, Polygon } from "geojson";
+import { fromTurfGeometry, openRing, polygonArea, toTurfGeometry, toTurfPolygon } from "./geometry";
+import { findFaces, nodeSegments } from "./planarGraph";
+import { Segment } from "./snapping";
+import { createZone, withGeometry, zoneLabel } from "./zones";
+
+export type ZoneOperation = "new" | "union" | "subtract" | "intersect" | "split";
+
+export const ZONE_OPERATIONS: { value: ZoneOperation; label: string }[] = [
+  { value: "new", label: "New" },
+  { value: "union", label: "Union" },
+  { value: "subtract", label: "Subtract" },
+  { value: "intersect", label: "Intersect" },
+  { value: "split", label: "Split" },
+];
+
+export interface OperationResult {
+  zones: Zone[];
+  changedIds: string[];
+  summary: string;
+}
+
+type TurfShape = Feature<Polygon | MultiPolygon>;
+
+// Parts smaller than this (square PDF units) are clipping noise, not zones.
+const MIN_PART_AREA = 0.01;
+const SPLIT_TOLERANCE = 0.01;
+
+const cleanParts = (polygons: PolygonRings[]) => polygons.filter((rings) => polygonArea(rings) > MIN_PART_AREA);
+
+// A zone whose geometry was clipped away entirely is dropped.
+const withPolygons = (zone: Zone, polygons: PolygonRings[]): Zone[] => {
+  const parts = cleanParts(polygons);
+  return parts.length ? [withGeometry(zone, parts)] : [];
+};
+
+const replaceZones = (zones: Zone[], replacements: Map<string, Zone[]>) =>
+  zones.flatMap((zone) => replacements.get(zone.id) ?? [zone]);
+
+const subtractShape = (zone: Zone, shape: TurfShape) =>
+  withPolygons(zone, fromTurfGeometry(difference(featureCollection<Polygon | MultiPolygon>([toTurfGeometry(zone.polygons), shape]))?.geometry));
+
+/**
+ * Cuts `shape` out of every zone not listed in `keepIds`, so the zones that
+ * were just drawn or grown own that area exclusively. Returns the updated
+ * list and the ids of the zones that lost area.
+ */
+export const carveFromOthers = (zones: Zone[], shape: TurfShape, keepIds: string[]) => {
+  const replacements = new Map<string, Zone[]>();
+  zones.forEach((zone) => {
+    if (keepIds.includes(zone.id) || !booleanIntersects(toTurfGeometry(zone.polygons), shape)) return;
+    replacements.set(zone.id, subtractShape(zone, shape));
+  });
+  return { zones: replaceZones(zones, replacements), carvedIds: Array.from(replacements.keys()) };
+};
+
+const carvedSuffix = (zones: Zone[], carvedIds: string[]) => {
+  const labels = zones.filter((zone) => carvedIds.includes(zone.id)).map(zoneLabel);
+  return labels.length ? `, cut from ${labels.join(", ")}` : "";
+};
+
+// A drawn zone always keeps its full shape; any zone it overlaps gives that area up.
+const applyNew = (shape: Point[], zones: Zone[], newZone: Zone): OperationResult => {
+  const carved = carveFromOthers(zones, toTurfPolygon([shape]), []);
+  return {
+    zones: [...carved.zones, newZone],
+    changedIds: [...carved.carvedIds, newZone.id],
+    summary: `Add ${zoneLabel(newZone)}${carvedSuffix(zones, carved.carvedIds)}`,
+  };
+};
+
+const applyUnion = (shape: Point[], targets: Zone[], zones: Zone[], newZone: Zone): OperationResult => {
+  if (targets.length === 0) return applyNew(shape, zones, newZone);
+  const shapeTurf = toTurfPolygon([shape]);
+  const merged = union(featureCollection<Polygon | MultiPolygon>([...targets.map((zone) => toTurfGeometry(zone.polygons)), shapeTurf]));
+  const [keeper, ...absorbed] = targets;
+  const replacements = new Map<string, Zone[]>([[keeper.id, withPolygons(keeper, fromTurfGeometry(merged?.geometry))]]);
+  absorbed.forEach((zone) => replacements.set(zone.id, []));
+  const carved = carveFromOthers(replaceZones(zones, replacements), shapeTurf, [keeper.id]);
+  return {
+    zones: carved.zones,
+    changedIds: [keeper.id, ...carved.carvedIds],
+    summary: `Union of ${targets.map(zoneLabel).join(", ")} with shape${carvedSuffix(zones, carved.carvedIds)}`,
+  };
+};
+
+const applyClip = (operation: "subtract" | "intersect", shape: Point[], targets: Zone[], zones: Zone[]): OperationResult => {
+  const shapeTurf = toTurfPolygon([shape]);
+  const replacements = new Map<string, Zone[]>();
+  targets.forEach((zone) => {
+    const pair = featureCollection<Polygon | MultiPolygon>([toTurfGeometry(zone.polygons), shapeTurf]);
+    const result = operation === "subtract" ? difference(pair) : intersect(pair);
+    replacements.set(zone.id, withPolygons(zone, fromTurfGeometry(result?.geometry)));
+  });
+  const verb = operation === "subtract" ? "Subtract shape from" : "Intersect shape with";
+  return {
+    zones: replaceZones(zones, replacements),
+    changedIds: targets.map((zone) => zone.id),
+    summary: `${verb} ${targets.map(zoneLabel).join(", ")}`,
+  };
+};
+
+// Cuts one polygon along a polyline by noding its edges with the line and keeping the faces inside it.
+const splitRings = (rings: PolygonRings, line: Point[]): PolygonRings[] => {
+  const toSegments = (ring: Point[], closed: boolean): Segment[] =>
+    (closed ? ring : ring.slice(0, -1)).map((a, i) => ({ a, b: ring[(i + 1) % ring.length] }));
+  const segments = [...rings.flatMap((ring) => toSegments(openRing(ring), true)), ...toSegments(line, false)];
+  const polygonTurf = toTurfPolygon(rings);
+  return cleanParts(
+    findFaces(nodeSegments(segments, SPLIT_TOLERANCE)).flatMap((face) =>
+      fromTurfGeometry(intersect(featureCollection<Polygon | MultiPolygon>([polygonTurf, toTurfPolygon([face])]))?.geometry)
+    )
+  );
+};
+
+// Split pieces become separate zones; parts the line didn't cross stay with the original.
+const applySplit = (line: Point[], targets: Zone[], zones: Zone[]): OperationResult => {
+  const replacements = new Map<string, Zone[]>();
+  targets.forEach((zone) => {
+    const kept: PolygonRings[] = [];
+    const cutOff: PolygonRings[] = [];
+    zone.polygons.forEach((rings) => {
+      const pieces = splitRings(rings, line);
+      if (pieces.length > 1) {
+        kept.push(pieces[0]);
+        cutOff.push(...pieces.slice(1));
+      } else {
+        kept.push(rings);
+      }
+    });
+    if (cutOff.length === 0) return;
+    const copies = cutOff.map((rings, idx) =>
+      createZone([rings], {
+        name: zone.name ? `${zone.name} (${idx + 2})` : "",
+        number: zone.number,
+        category: zone.category,
+        color: zone.color,
+        notes: zone.notes,
+      })
+    );
+    replacements.set(zone.id, [withGeometry(zone, kept), ...copies]);
+  });
+  const labels = targets.filter((zone) => replacements.has(zone.id)).map(zoneLabel);
+  return {
+    zones: replaceZones(zones, replacements),
+    changedIds: Array.from(replacements.values()).flat().map((zone) => zone.id),
+    summary: labels.length ? `Split ${labels.join(", ")}` : "Line does not cut any zone",
+  };
+};
+
+/**
+ * Computes the page's zones after applying `operation` with the drawn shape
+ * (a closed polygon, or an open polyline for split). When `targetId` is set
+ * only that zone is operated on; otherwise every zone the shape touches is.
+ * Zones never overlap afterwards: area added by new or union is removed from
+ * any other zone. Nothing is committed here, so the result can be previewed.
+ */
+export const applyZoneOperation = (
+  operation: ZoneOperation,
+  shape: Point[],
+  zones: Zone[],
+  targetId: string | null,
+  newZone: Zone
+): OperationResult => {
+  const shapeTurf = operation === "split" ? null : toTurfPolygon([shape]);
+  const targets = zones.filter((zone) => {
+    if (targetId && zone.id !== targetId) return false;
+    if (!shapeTurf) return true;
+    return booleanIntersects(toTurfGeometry(zone.polygons), shapeTurf);
+  });
+
+  switch (operation) {
+    case "new":
+      return applyNew(shape, zones, newZone);
+    case "union":
+      return applyUnion(shape, targets, zones, newZone);
+    case "subtract":
+    case "intersect":
+      return applyClip(operation, shape, targets, zones);
+    case "split":
+      return applySplit(shape, targets, zones);
+  }
+};
@@ -0,0 +1,132 @@
+import { Position } from "geojson";
+import { featureCollectionToZones, zonesToFeatureCollection } from "./geojson";
+import { createZone } from "./zones";
+
+const SQUARE: Position[] = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [0, 10],
+  [0, 0],
+];
+const HOLE: Position[] = [
+  [4, 4],
+  [6, 4],
+  [6, 6],
+  [4, 6],
+  [4, 4],
+];
+
+const collection = (geometry: unknown, properties: Record<string, unknown> = {}) => ({
+  type: "FeatureCollection",
+  features: [{ type: "Feature", properties: { page: 1, ...properties }, geometry }],
+});
+
+const polygon = (...rings: unknown[]) => collection({ type: "Polygon", coordinates: rings });
+
+const RING_ERROR = "Feature 1 must be a Polygon or MultiPolygon with closed rings of at least 3 distinct vertices.";
+
+describe("featureCollectionToZones", () => {
+  test("reads a polygon with a hole as one zone with open rings", () => {
+    const zones = featureCollectionToZones(polygon(SQUARE, HOLE), 1)[1];
+    expect(zones).toHaveLength(1);
+    expect(zones[0].polygons).toHaveLength(1);
+    expect(zones[0].polygons[0].map((ring) => ring.length)).toEqual([4, 4]);
+    expect(zones[0].polygons[0][0][1]).toEqual({ x: 10, y: 0 });
+  });
+
+  test("reads a MultiPolygon as one zone with several parts", () => {
+    const other = SQUARE.map(([x, y]) => [x + 20, y]);
+    const data = collection({ type: "MultiPolygon", coordinates: [[SQUARE], [other]] }, { page: 2 });
+    expect(featureCollectionToZones(data, 2)[2][0].polygons).toHaveLength(2);
+  });
+
+  test("rejects a ring whose last position does not repeat the first", () => {
+    expect(() => featureCollectionToZones(polygon(SQUARE.slice(0, 4)), 1)).toThrow(RING_ERROR);
+    expect(() => featureCollectionToZones(polygon([...SQUARE.slice(0, 4), [0, 1]]), 1)).toThrow(RING_ERROR);
+  });
+
+  test("rejects rings with fewer than 3 distinct vertices", () => {
+    const line = [
+      [0, 0],
+      [10, 0],
+      [0, 0],
+      [10, 0],
+      [0, 0],
+    ];
+    expect(() => featureCollectionToZones(polygon(line), 1)).toThrow(RING_ERROR);
+    expect(() => featureCollectionToZones(polygon(SQUARE.slice(0, 3)), 1)).toThrow(RING_ERROR);
+  });
+
+  test("rejects a bad hole even when the outer ring is fine", () => {
+    expect(() => featureCollectionToZones(polygon(SQUARE, HOLE.slice(0, 4)), 1)).toThrow(RING_ERROR);
+  });
+
+  test.each([
+    ["a string coordinate", [[0, 0], ["10", 0], [10, 10], [0, 0]]],
+    ["a missing y", [[0, 0], [10], [10, 10], [0, 0]]],
+    ["a non-finite coordinate", [[0, 0], [Infinity, 0], [10, 10], [0, 0]]],
+    ["NaN", [[0, 0], [NaN, 0], [10, 10], [0, 0]]],
+  ])("rejects %s", (_, ring) => {
+    expect(() => featureCollectionToZones(polygon(ring), 1)).toThrow(RING_ERROR);
+  });
+
+  test("rejects empty polygons and other geometry types", () => {
+    expect(() => featureCollectionToZones(polygon(), 1)).toThrow(RING_ERROR);
+    expect(() => featureCollectionToZones(collection({ type: "LineString", coordinates: SQUARE }), 1)).toThrow(RING_ERROR);
+    expect(() => featureCollectionToZones(collection({ type: "MultiPolygon", coordinates: [[SQUARE], []] }), 1)).toThrow(RING_ERROR);
+  });
+
+  test("rejects documents that are not feature collections", () => {
+    expect(() => featureCollectionToZones(null, 1)).toThrow("File is not a GeoJSON FeatureCollection.");
+    expect(() => featureCollectionToZones({ type: "Feature" }, 1)).toThrow("File is not a GeoJSON FeatureCollection.");
+    expect(() => featureCollectionToZones({ type: "FeatureCollection", features: [{ type: "Feature" }] }, 1)).toThrow(
+      "Feature 1 is not a GeoJSON Feature with a geometry."
+    );
+  });
+
+  test("rejects pages outside the document", () => {
+    expect(() => featureCollectionToZones(polygon(SQUARE), 0)).toThrow("refers to page 1, but the document has 0 page(s)");
+    expect(() => featureCollectionToZones(collection({ type: "Polygon", coordinates: [SQUARE] }, { page: 1.5 }), 3)).toThrow(
+      "refers to page 1.5"
+    );
+  });
+
+  test("regenerates duplicate ids and drops invalid properties", () => {
+    const { features } = collection({ type: "Polygon", coordinates: [SQUARE] }, { zoneId: "a", category: "lobby", color: "red" });
+    const zones = featureCollectionToZones({ type: "FeatureCollection", features: [...features, ...features] }, 1)[1];
+    expect(zones[0].id).toBe("a");
+    expect(zones[1].id).not.toBe("a");
+    expect(zones[0]).toMatchObject({ category: "unassigned", color: undefined });
+  });
+});
+
+describe("zonesToFeatureCollection", () => {
+  test("round-trips zones through an import", () => {
+    const zone = createZone(
+      [
+        [
+          [
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 10 },
+          ],
+        ],
+      ],
+      { name: "Kitchen", number: "101", category: "wet-area", color: "#00ff00", notes: "tiles" }
+    );
+    const exported = zonesToFeatureCollection({ 3: [zone] });
+    expect(exported.features[0].geometry).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 0],
+        ],
+      ],
+    });
+    expect(featureCollectionToZones(JSON.parse(JSON.stringify(exported)), 3)).toEqual({ 3: [zone] });
+  });
+});
@@ -0,0 +1,140 @@
+import { Feature, FeatureCollection, MultiPolygon, Polygon, Position } from "geojson";
+import { Point, PolygonRings, ZoneCategory, ZoneShape, ZonesByPage } from "../types/zones";
+import { isZoneShape } from "./shapes";
+import { createZone, createZoneId, isZoneCategory } from "./zones";
+
+export interface ZoneProperties {
+  page: number;
+  zoneId: string;
+  name: string;
+  number: string | null;
+  category: ZoneCategory;
+  color: string | null;
+  notes: string;
+  shape: ZoneShape | null;
+}
+
+export type ZoneFeatureCollection = FeatureCollection<Polygon | MultiPolygon, ZoneProperties>;
+
+const toClosedRing = (ring: Point[]): Position[] => {
+  const coords = ring.map((p) => [p.x, p.y]);
+  const first = coords[0];
+  const last = coords[coords.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) coords.push([...first]);
+  return coords;
+};
+
+const toOpenRing = (ring: Position[]): Point[] => {
+  const points = ring.map(([x, y]) => ({ x, y }));
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.x === last.x && first.y === last.y) points.pop();
+  return points;
+};
+
+const toGeometry = (polygons: PolygonRings[]): Polygon | MultiPolygon => {
+  const coordinates = polygons.map((rings) => rings.filter((ring) => ring.length >= 3).map(toClosedRing));
+  return coordinates.length === 1 ? { type: "Polygon", coordinates: coordinates[0] } : { type: "MultiPolygon", coordinates };
+};
+
+export const zonesToFeatureCollection = (zonesByPage: ZonesByPage): ZoneFeatureCollection => {
+  const features: Feature<Polygon | MultiPolygon, ZoneProperties>[] = Object.keys(zonesByPage)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap((page) =>
+      zonesByPage[page].map((zone) => ({
+        type: "Feature" as const,
+        id: zone.id,
+        properties: {
+          page,
+          zoneId: zone.id,
+          name: zone.name,
+          number: zone.number ?? null,
+          category: zone.category,
+          color: zone.color ?? null,
+          notes: zone.notes,
+          shape: zone.shape ?? null,
+        },
+        geometry: toGeometry(zone.polygons),
+      }))
+    );
+  return { type: "FeatureCollection", features };
+};
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number" &&
+  Number.isFinite(value[0]) &&
+  Number.isFinite(value[1]);
+
+// Closed (last position repeats the first) with at least 3 distinct vertices.
+const isRing = (value: unknown): value is Position[] => {
+  if (!Array.isArray(value) || value.length < 4 || !value.every(isPosition)) return false;
+  const first = value[0];
+  const last = value[value.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) return false;
+  return new Set(value.map(([x, y]) => `${x},${y}`)).size >= 3;
+};
+
+const isPolygonCoordinates = (value: unknown): value is Position[][] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRing);
+
+/**
+ * Validates a parsed GeoJSON document produced by `zonesToFeatureCollection`
+ * and rebuilds the per-page zone map, one zone per feature. Missing or
+ * duplicate zone ids are regenerated. Throws with a readable message on the
+ * first problem.
+ */
+export const featureCollectionToZones = (data: unknown, numPages: number): ZonesByPage => {
+  const collection = data as Partial<FeatureCollection>;
+  if (!collection || collection.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    throw new Error("File is not a GeoJSON FeatureCollection.");
+  }
+
+  const zonesByPage: ZonesByPage = {};
+  const seenIds = new Set<string>();
+  collection.features.forEach((feature, idx) => {
+    const label = `Feature ${idx + 1}`;
+    if (!feature || feature.type !== "Feature" || !feature.geometry) {
+      throw new Error(`${label} is not a GeoJSON Feature with a geometry.`);
+    }
+
+    const page = Number(feature.properties?.page ?? 1);
+    if (!Number.isInteger(page) || page < 1 || page > numPages) {
+      throw new Error(`${label} refers to page ${feature.properties?.page}, but the document has ${numPages} page(s).`);
+    }
+
+    const { geometry } = feature;
+    let polygons: Position[][][];
+    if (geometry.type === "Polygon" && isPolygonCoordinates(geometry.coordinates)) {
+      polygons = [geometry.coordinates];
+    } else if (geometry.type === "MultiPolygon" && Array.isArray(geometry.coordinates) && geometry.coordinates.every(isPolygonCoordinates)) {
+      polygons = geometry.coordinates;
+    } else {
+      throw new Error(`${label} must be a Polygon or MultiPolygon with closed rings of at least 3 distinct vertices.`);
+    }
+
+    const props = feature.properties ?? {};
+    let id = typeof props.zoneId === "string" && props.zoneId ? props.zoneId : createZoneId();
+    if (seenIds.has(id)) id = createZoneId();
+    seenIds.add(id);
+    // A shape only still describes single-ring geometry.
+    const isPlainShape = polygons.length === 1 && polygons[0].length === 1 && isZoneShape(props.shape);
+    const zone = createZone(
+      polygons.map((rings) => rings.map(toOpenRing)),
+      {
+        id,
+        name: typeof props.name === "string" ? props.name : "",
+        number: typeof props.number === "string" && props.number ? props.number : undefined,
+        category: isZoneCategory(props.category) ? props.category : "unassigned",
+        color: typeof props.color === "string" && /^#[0-9a-f]{6}$/i.test(props.color) ? props.color : undefined,
+        notes: typeof props.notes === "string" ? props.notes : "",
+        shape: isPlainShape ? props.shape : undefined,
+      }
+    );
+    zonesByPage[page] = [...(zonesByPage[page] ?? []), zone];
+  });
+  return zonesByPage;
+};
@@ -0,0 +1,117 @@
+import { kinks, multiPolygon as turfMultiPolygon, pointOnFeature, polygon as turfPolygon } from "@turf/turf";
+import { Feature, MultiPolygon, Polygon } from "geojson";
+import { Point, PolygonRings } from "../types/zones";
+
+export const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+
+// pdf.js PageViewport, narrowed to the two conversions the editor relies on.
+export interface ViewportLike {
+  scale: number;
+  width: number;
+  height: number;
+  convertToViewportPoint: (x: number, y: number) => number[];
+  convertToPdfPoint: (x: number, y: number) => number[];
+}
+
+export const toViewportPoint = (viewport: ViewportLike, p: Point): Point => {
+  const [x, y] = viewport.convertToViewportPoint(p.x, p.y);
+  return { x, y };
+};
+
+export const toPdfPoint = (viewport: ViewportLike, p: Point): Point => {
+  const [x, y] = viewport.convertToPdfPoint(p.x, p.y);
+  return { x, y };
+};
+
+export const ringsToViewport = (viewport: ViewportLike, rings: PolygonRings): PolygonRings =>
+  rings.map((ring) => ring.map((p) => toViewportPoint(viewport, p)));
+
+// Shoelace area of a ring; works for open or closed rings.
+export const ringArea = (ring: Point[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+export const ringLength = (ring: Point[]) => {
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    total += distance(ring[i], ring[(i + 1) % ring.length]);
+  }
+  return total;
+};
+
+export const polygonArea = (rings: PolygonRings) =>
+  Math.max(0, ringArea(rings[0]) - rings.slice(1).reduce((sum, hole) => sum + ringArea(hole), 0));
+
+// Multi-part zones are labelled and located on their largest part.
+export const largestPart = (polygons: PolygonRings[]) =>
+  polygons.reduce((best, rings) => (polygonArea(rings) > polygonArea(best) ? rings : best), polygons[0]);
+
+export const ringCentroid = (ring: Point[]): Point => {
+  const sum = ring.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / ring.length, y: sum.y / ring.length };
+};
+
+// Drops the repeated closing vertex that turf output carries.
+export const openRing = (ring: Point[]) => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first.x === last.x && first.y === last.y ? ring.slice(0, -1) : ring;
+};
+
+// Even-odd test across all rings, so a point inside a hole is outside the polygon.
+export const pointInRings = (point: Point, rings: PolygonRings) => {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+export const toTurfPolygon = (rings: PolygonRings) =>
+  turfPolygon(
+    rings.map((ring) => {
+      const coords = openRing(ring).map((p) => [p.x, p.y]);
+      return [...coords, [...coords[0]]];
+    })
+  );
+
+// A point strictly inside the rings, unlike the centroid, which can fall outside or in a hole.
+export const interiorPoint = (rings: PolygonRings): Point => {
+  const [x, y] = pointOnFeature(toTurfPolygon(rings)).geometry.coordinates;
+  return { x, y };
+};
+
+export const pointInPolygons = (point: Point, polygons: PolygonRings[]) =>
+  polygons.some((rings) => pointInRings(point, rings));
+
+export const toTurfGeometry = (polygons: PolygonRings[]): Feature<Polygon | MultiPolygon> =>
+  polygons.length === 1 ? toTurfPolygon(polygons[0]) : turfMultiPolygon(polygons.map((rings) => toTurfPolygon(rings).geometry.coordinates));
+
+// Returns a reason the rings can't form a valid zone, or null when they can.
+export const validateRings = (rings: PolygonRings): string | null => {
+  if (rings.some((ring) => openRing(ring).length < 3)) return "Every ring needs at least 3 vertices.";
+  if (kinks(toTurfPolygon(rings)).features.length > 0) return "Edit would make the zone self-intersect.";
+  return null;
+};
+
+export const validatePolygons = (polygons: PolygonRings[]): string | null =>
+  polygons.reduce<string | null>((error, rings) => error ?? validateRings(rings), null);
+
+// Splits a turf Polygon/MultiPolygon result into one ring set per polygon.
+export const fromTurfGeometry = (geometry: Polygon | MultiPolygon | null | undefined): PolygonRings[] => {
+  if (!geometry) return [];
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.map((rings) => rings.map((ring) => openRing(ring.map(([x, y]) => ({ x, y })))));
+};
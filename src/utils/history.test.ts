@@ -0,0 +1,152 @@
+import { Point, Zone, ZonesByPage } from "../types/zones";
+import { createCommand, EditorState, EMPTY_HISTORY, History, MAX_HISTORY, pushCommand, travelTo } from "./history";
+import { createZone } from "./zones";
+
+const square = (x: number, y: number, size = 10): Point[] => [
+  { x, y },
+  { x: x + size, y },
+  { x: x + size, y: y + size },
+  { x, y: y + size },
+  { x, y },
+];
+
+const state = (zonesByPage: ZonesByPage, currentPolygon: Point[] = []): EditorState => ({ zonesByPage, currentPolygon });
+
+// Records the edit from `before` to `after` the way commitEdit does.
+const record = (history: History, label: string, page: number, before: EditorState, after: EditorState, mergeKey?: string) => {
+  const command = createCommand(label, page, before, after, mergeKey);
+  if (!command) throw new Error(`${label} recorded nothing`);
+  return pushCommand(history, command);
+};
+
+describe("createCommand", () => {
+  const zone = createZone([[square(0, 0)]]);
+
+  test("returns null when nothing changed", () => {
+    const zonesByPage = { 1: [zone] };
+    expect(createCommand("Noop", 1, state(zonesByPage), state(zonesByPage))).toBeNull();
+    expect(createCommand("Noop", 1, state({}, []), state({}, []))).toBeNull();
+  });
+
+  test("records only the pages whose zone lists changed", () => {
+    const page2 = [createZone([[square(50, 50)]])];
+    const before = state({ 1: [zone], 2: page2 });
+    const after = state({ 1: [], 2: page2, 3: [zone] });
+    const command = createCommand("Move", 1, before, after);
+    expect(command?.zones).toEqual([
+      { page: 1, before: [zone], after: [] },
+      { page: 3, before: undefined, after: [zone] },
+    ]);
+    expect(command?.points).toBeNull();
+  });
+
+  test("records in-progress points", () => {
+    const points = [{ x: 1, y: 2 }];
+    const command = createCommand("Add point", 1, state({}, []), state({}, points));
+    expect(command?.zones).toEqual([]);
+    expect(command?.points).toEqual({ before: [], after: points });
+  });
+});
+
+describe("pushCommand", () => {
+  test("merges consecutive commands with the same key into one step", () => {
+    const zone = createZone([[square(0, 0)]], { color: "#000000" });
+    const red = { ...zone, color: "#ff0000" };
+    const blue = { ...zone, color: "#0000ff" };
+    let history = record(EMPTY_HISTORY, "Color", 1, state({ 1: [zone] }), state({ 1: [red] }), `color:${zone.id}`);
+    history = record(history, "Color", 1, state({ 1: [red] }), state({ 1: [blue] }), `color:${zone.id}`);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].zones).toEqual([{ page: 1, before: [zone], after: [blue] }]);
+
+    history = record(history, "Rename", 1, state({ 1: [blue] }), state({ 1: [{ ...blue, name: "Hall" }] }));
+    expect(history.past).toHaveLength(2);
+  });
+
+  test("clears the redo stack", () => {
+    const zone = createZone([[square(0, 0)]]);
+    const history = record(EMPTY_HISTORY, "Add", 1, state({}), state({ 1: [zone] }));
+    const undone = travelTo(state({ 1: [zone] }), history, 0).history;
+    expect(undone.future).toHaveLength(1);
+    expect(record(undone, "Add", 1, state({}), state({ 2: [zone] })).future).toEqual([]);
+  });
+
+  test(`keeps only the last ${MAX_HISTORY} steps`, () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i <= MAX_HISTORY; i++) {
+      history = record(history, `Step ${i}`, 1, state({}, [{ x: i, y: 0 }]), state({}, [{ x: i + 1, y: 0 }]));
+    }
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0].label).toBe("Step 1");
+    expect(history.past[MAX_HISTORY - 1].label).toBe(`Step ${MAX_HISTORY}`);
+  });
+});
+
+describe("travelTo", () => {
+  // Draw a zone on page 1 point by point, close it, then add a zone on page 2.
+  const kitchen = createZone([[square(0, 0)]], { name: "Kitchen" });
+  const hall = createZone([[square(20, 20)]], { name: "Hall" });
+  const p1 = [{ x: 0, y: 0 }];
+  const p2 = [...p1, { x: 10, y: 0 }];
+  const page1: Zone[] = [kitchen];
+  const states = [
+    state({}),
+    state({}, p1),
+    state({}, p2),
+    state({ 1: page1 }),
+    state({ 1: page1, 2: [hall] }),
+  ];
+  const history = [
+    { label: "Add point", page: 1 },
+    { label: "Add point", page: 1 },
+    { label: "Add Kitchen", page: 1 },
+    { label: "Add Hall", page: 2 },
+  ].reduce((h, { label, page }, i) => record(h, label, page, states[i], states[i + 1]), EMPTY_HISTORY);
+  const latest = states[states.length - 1];
+
+  test("undo restores the previous state and reports its page", () => {
+    const result = travelTo(latest, history, 3);
+    expect(result.state).toEqual(states[3]);
+    expect(result.last?.page).toBe(2);
+    expect(result.history.past).toHaveLength(3);
+    expect(result.history.future).toHaveLength(1);
+  });
+
+  test("undoing a close brings the in-progress points back", () => {
+    const result = travelTo(latest, history, 2);
+    expect(result.state.zonesByPage).toEqual({});
+    expect(result.state.currentPolygon).toEqual(p2);
+    expect(result.last?.label).toBe("Add Kitchen");
+  });
+
+  test("jumps across several steps and back again", () => {
+    const back = travelTo(latest, history, 1);
+    expect(back.state).toEqual(states[1]);
+    expect(back.history.future.map((command) => command.label)).toEqual(["Add point", "Add Kitchen", "Add Hall"]);
+
+    const forward = travelTo(back.state, back.history, 4);
+    expect(forward.state).toEqual(latest);
+    expect(forward.last?.page).toBe(2);
+    expect(forward.history.future).toEqual([]);
+  });
+
+  test("redo reapplies one step at a time", () => {
+    const undone = travelTo(latest, history, 0);
+    expect(undone.state).toEqual(states[0]);
+    const redone = [1, 2, 3, 4].reduce((current, position) => {
+      const next = travelTo(current.state, current.history, position);
+      expect(next.state).toEqual(states[position]);
+      return next;
+    }, undone);
+    expect(redone.history.past).toHaveLength(4);
+  });
+
+  test("clamps out-of-range positions", () => {
+    expect(travelTo(latest, history, 99).state).toEqual(latest);
+    expect(travelTo(latest, history, 99).last).toBeNull();
+    expect(travelTo(latest, history, -5).state).toEqual(states[0]);
+  });
+
+  test("leaves pages it does not touch shared with the input", () => {
+    expect(travelTo(latest, history, 3).state.zonesByPage[1]).toBe(page1);
+  });
+});
@@ -0,0 +1,117 @@
+import { Point, Zone, ZonesByPage } from "../types/zones";
+
+// The part of the editor state that undo/redo restores.
+export interface EditorState {
+  zonesByPage: ZonesByPage;
+  currentPolygon: Point[];
+}
+
+interface PageChange {
+  page: number;
+  before: Zone[] | undefined;
+  after: Zone[] | undefined;
+}
+
+/**
+ * One undoable step. Only the pages whose zone lists changed are recorded;
+ * zones are never mutated, so before/after share everything else with the
+ * surrounding states instead of deep-copying them.
+ */
+export interface HistoryCommand {
+  label: string;
+  page: number;
+  zones: PageChange[];
+  points: { before: Point[]; after: Point[] } | null;
+  // Consecutive commands with the same key collapse into one step (e.g. dragging a color picker).
+  mergeKey?: string;
+}
+
+export interface History {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+// Oldest steps are dropped past this point.
+export const MAX_HISTORY = 200;
+
+// Returns null when nothing changed, so no-op edits don't clutter the history.
+export const createCommand = (
+  label: string,
+  page: number,
+  before: EditorState,
+  after: EditorState,
+  mergeKey?: string
+): HistoryCommand | null => {
+  const pages = new Set([...Object.keys(before.zonesByPage), ...Object.keys(after.zonesByPage)].map(Number));
+  const zones = Array.from(pages)
+    .filter((p) => before.zonesByPage[p] !== after.zonesByPage[p])
+    .map((p) => ({ page: p, before: before.zonesByPage[p], after: after.zonesByPage[p] }));
+  const pointsChanged =
+    before.currentPolygon !== after.currentPolygon && (before.currentPolygon.length > 0 || after.currentPolygon.length > 0);
+  const points = pointsChanged ? { before: before.currentPolygon, after: after.currentPolygon } : null;
+  if (zones.length === 0 && !points) return null;
+  return { label, page, zones, points, mergeKey };
+};
+
+const setPage = (zonesByPage: ZonesByPage, page: number, zones: Zone[] | undefined) => {
+  const next = { ...zonesByPage };
+  if (zones) next[page] = zones;
+  else delete next[page];
+  return next;
+};
+
+export const applyCommand = (state: EditorState, command: HistoryCommand, direction: "undo" | "redo"): EditorState => ({
+  zonesByPage: command.zones.reduce(
+    (zonesByPage, change) => setPage(zonesByPage, change.page, direction === "undo" ? change.before : change.after),
+    state.zonesByPage
+  ),
+  currentPolygon: command.points ? command.points[direction === "undo" ? "before" : "after"] : state.currentPolygon,
+});
+
+// Keeps the earliest "before" and the latest "after" of each page.
+const mergeCommands = (first: HistoryCommand, second: HistoryCommand): HistoryCommand => {
+  const zones = [...first.zones];
+  second.zones.forEach((change) => {
+    const idx = zones.findIndex((c) => c.page === change.page);
+    if (idx >= 0) zones[idx] = { ...zones[idx], after: change.after };
+    else zones.push(change);
+  });
+  const points =
+    first.points && second.points ? { before: first.points.before, after: second.points.after } : first.points ?? second.points;
+  return { ...second, zones, points };
+};
+
+export const pushCommand = (history: History, command: HistoryCommand): History => {
+  const last = history.past[history.past.length - 1];
+  if (last && command.mergeKey && last.mergeKey === command.mergeKey) {
+    return { past: [...history.past.slice(0, -1), mergeCommands(last, command)], future: [] };
+  }
+  return { past: [...history.past, command].slice(-MAX_HISTORY), future: [] };
+};
+
+/**
+ * Moves to the state after the first `position` commands of the combined
+ * past + future list, returning the new state and history plus the command
+ * that was stepped over last (to jump to its page).
+ */
+export const travelTo = (state: EditorState, history: History, position: number) => {
+  let { past, future } = history;
+  const target = Math.max(0, Math.min(position, past.length + future.length));
+  let next = state;
+  let last: HistoryCommand | null = null;
+  while (past.length > target) {
+    last = past[past.length - 1];
+    next = applyCommand(next, last, "undo");
+    past = past.slice(0, -1);
+    future = [last, ...future];
+  }
+  while (past.length < target) {
+    last = future[0];
+    next = applyCommand(next, last, "redo");
+    past = [...past, last];
+    future = future.slice(1);
+  }
+  return { state: next, history: { past, future }, last };
+};
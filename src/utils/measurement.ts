@@ -0,0 +1,64 @@
+import { Zone } from "../types/zones";
+import { polygonArea, ringLength } from "./geometry";
+
+export type LengthUnit = "m" | "ft";
+
+// Real-world size of one PDF user-space unit, plus the unit results are shown in.
+export interface Calibration {
+  metersPerUnit: number;
+  displayUnit: LengthUnit;
+}
+
+export type CalibrationByPage = Record<number, Calibration>;
+
+const METERS_PER_FOOT = 0.3048;
+// PDF user space is 1/72 inch on paper.
+const METERS_PER_PDF_POINT = 0.0254 / 72;
+
+export const toMeters = (value: number, unit: LengthUnit) => (unit === "ft" ? value * METERS_PER_FOOT : value);
+
+export const fromMeters = (value: number, unit: LengthUnit) => (unit === "ft" ? value / METERS_PER_FOOT : value);
+
+export const calibrationFromLine = (pdfLength: number, realLength: number, unit: LengthUnit): Calibration => ({
+  metersPerUnit: toMeters(realLength, unit) / pdfLength,
+  displayUnit: unit,
+});
+
+// A drawing scale of 1:N means one paper unit represents N real units.
+export const calibrationFromRatio = (ratio: number, unit: LengthUnit): Calibration => ({
+  metersPerUnit: METERS_PER_PDF_POINT * ratio,
+  displayUnit: unit,
+});
+
+// Net area: each part's outer ring minus its holes, in square PDF units.
+export const zoneArea = ({ polygons }: Zone) => polygons.reduce((sum, rings) => sum + polygonArea(rings), 0);
+
+// Perimeter of the outer boundaries only; hole edges are not counted.
+export const zonePerimeter = ({ polygons }: Zone) => polygons.reduce((sum, rings) => sum + ringLength(rings[0]), 0);
+
+// Real-world value in the calibrated display unit, or PDF points when uncalibrated.
+export const measureLength = (pdfLength: number, calibration?: Calibration) =>
+  calibration
+    ? { value: fromMeters(pdfLength * calibration.metersPerUnit, calibration.displayUnit), unit: calibration.displayUnit }
+    : { value: pdfLength, unit: "pt" };
+
+// Inverse of measureLength: a typed length in the display unit (or points), in PDF units.
+export const toPdfLength = (value: number, calibration?: Calibration) =>
+  calibration ? toMeters(value, calibration.displayUnit) / calibration.metersPerUnit : value;
+
+export const measureArea = (pdfArea: number, calibration?: Calibration) => {
+  if (!calibration) return { value: pdfArea, unit: "pt²" };
+  const meters = calibration.metersPerUnit;
+  const value = fromMeters(fromMeters(pdfArea * meters * meters, calibration.displayUnit), calibration.displayUnit);
+  return { value, unit: `${calibration.displayUnit}²` };
+};
+
+export const formatLength = (pdfLength: number, calibration?: Calibration) => {
+  const { value, unit } = measureLength(pdfLength, calibration);
+  return `${value.toFixed(calibration ? 2 : 1)} ${unit}`;
+};
+
+export const formatArea = (pdfArea: number, calibration?: Calibration) => {
+  const { value, unit } = measureArea(pdfArea, calibration);
+  return `${value.toFixed(calibration ? 2 : 0)} ${unit}`;
+};
@@ -0,0 +1,120 @@
+import { featureCollection, union } from "@turf/turf";
+import { Point, PolygonRings, ZonesByPage } from "../types/zones";
+import { carveFromOthers } from "./booleanOps";
+import { fromTurfGeometry, openRing, polygonArea, toTurfGeometry, toTurfPolygon, validateRings } from "./geometry";
+import { createZone, MAX_NAME_LENGTH, nextZoneName } from "./zones";
+
+export type MarkupType = "Polygon" | "PolyLine" | "Square" | "Circle" | "Ink";
+
+export const MARKUP_TYPES: { value: MarkupType; label: string }[] = [
+  { value: "Polygon", label: "Polygon" },
+  { value: "PolyLine", label: "Polyline" },
+  { value: "Square", label: "Rectangle" },
+  { value: "Circle", label: "Ellipse" },
+  { value: "Ink", label: "Ink" },
+];
+
+// The part of pdf.js' annotation data the importer reads.
+interface AnnotationData {
+  subtype: string;
+  rect: number[];
+  color: ArrayLike<number> | null;
+  contentsObj?: { str: string };
+  vertices?: ArrayLike<number> | null;
+  inkLists?: ArrayLike<number>[];
+}
+
+export interface MarkupImportResult {
+  zonesByPage: ZonesByPage;
+  imported: number;
+  skipped: number;
+}
+
+const ELLIPSE_STEPS = 32;
+const MIN_MARKUP_AREA = 0.01;
+
+const toPoints = (coords: ArrayLike<number>): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < coords.length; i += 2) points.push({ x: coords[i], y: coords[i + 1] });
+  return points;
+};
+
+const toHexColor = (color: ArrayLike<number>) =>
+  `#${Array.from(color)
+    .slice(0, 3)
+    .map((c) => Math.round(c).toString(16).padStart(2, "0"))
+    .join("")}`;
+
+const markupRings = (annotation: AnnotationData): Point[][] => {
+  const [x1, y1, x2, y2] = annotation.rect;
+  switch (annotation.subtype) {
+    case "Polygon":
+    case "PolyLine":
+      return annotation.vertices ? [toPoints(annotation.vertices)] : [];
+    case "Square":
+      return [[{ x: x1, y: y1 }, { x: x2, y: y1 }, { x: x2, y: y2 }, { x: x1, y: y2 }]];
+    case "Circle": {
+      const cx = (x1 + x2) / 2;
+      const cy = (y1 + y2) / 2;
+      return [
+        Array.from({ length: ELLIPSE_STEPS }, (_, i) => {
+          const angle = (2 * Math.PI * i) / ELLIPSE_STEPS;
+          return { x: cx + ((x2 - x1) / 2) * Math.cos(angle), y: cy + ((y2 - y1) / 2) * Math.sin(angle) };
+        }),
+      ];
+    }
+    case "Ink":
+      return (annotation.inkLists ?? []).map(toPoints);
+    default:
+      return [];
+  }
+};
+
+// Open markups are closed back to their first point; strokes that then cross
+// themselves are dropped and overlapping strokes are merged into one area.
+const markupPolygons = (rings: Point[][]): PolygonRings[] => {
+  const valid = rings
+    .map(openRing)
+    .filter((ring) => !validateRings([ring]) && polygonArea([ring]) > MIN_MARKUP_AREA)
+    .map((ring): PolygonRings => [ring]);
+  if (valid.length < 2) return valid;
+  return fromTurfGeometry(union(featureCollection(valid.map((rings) => toTurfPolygon(rings))))?.geometry);
+};
+
+/**
+ * Reads the markup annotations on every page and turns those of the chosen
+ * types into zones, keeping the annotation color and using its contents as
+ * the name (first line) and notes. Like a drawn zone, each imported markup
+ * takes its area from any zone it overlaps.
+ */
+export const importMarkupZones = async (
+  pdfDoc: any,
+  types: MarkupType[],
+  zonesByPage: ZonesByPage
+): Promise<MarkupImportResult> => {
+  let next = zonesByPage;
+  let imported = 0;
+  let skipped = 0;
+  for (let pageNumber = 1; pageNumber <= pdfDoc.numPages; pageNumber++) {
+    const page = await pdfDoc.getPage(pageNumber);
+    const annotations: AnnotationData[] = await page.getAnnotations();
+    for (const annotation of annotations) {
+      if (!(types as string[]).includes(annotation.subtype)) continue;
+      const polygons = markupPolygons(markupRings(annotation));
+      if (!polygons.length) {
+        skipped++;
+        continue;
+      }
+      const contents = annotation.contentsObj?.str.trim() ?? "";
+      const zone = createZone(polygons, {
+        name: contents.split("\n")[0].slice(0, MAX_NAME_LENGTH) || nextZoneName(next),
+        color: annotation.color?.length ? toHexColor(annotation.color) : undefined,
+        notes: contents,
+      });
+      const carved = carveFromOthers(next[pageNumber] ?? [], toTurfGeometry(polygons), []);
+      next = { ...next, [pageNumber]: [...carved.zones, zone] };
+      imported++;
+    }
+  }
+  return { zonesByPage: next, imported, skipped };
+};
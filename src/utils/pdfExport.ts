@@ -0,0 +1,162 @@
+import {
+  closePath,
+  lineTo,
+  moveTo,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFOperator,
+  PDFOperatorNames,
+  PDFPage,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  setFillingRgbColor,
+  setGraphicsState,
+  setLineWidth,
+  setStrokingRgbColor,
+  StandardFonts,
+} from "pdf-lib";
+import { PolygonRings, Zone, ZonesByPage } from "../types/zones";
+import { largestPart, openRing, ringCentroid } from "./geometry";
+import { CalibrationByPage, formatArea, zoneArea } from "./measurement";
+import { categoryLabel, zoneColor, zoneTitle } from "./zones";
+
+export type PdfExportMode = "annotations" | "flatten";
+
+export const PDF_EXPORT_MODES: { value: PdfExportMode; label: string }[] = [
+  { value: "annotations", label: "Polygon annotations" },
+  { value: "flatten", label: "Flattened overlay" },
+];
+
+const FILL_OPACITY = 0.4;
+const LINE_WIDTH = 2;
+const LABEL_SIZE = 9;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+const zoneBounds = (polygons: PolygonRings[]) => {
+  const points = polygons.flat(2);
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+// Every ring goes into one path filled even-odd, so holes and separate parts both render.
+const zonePathOperators = (polygons: PolygonRings[]): PDFOperator[] =>
+  polygons.flat().flatMap((ring) => {
+    const [first, ...rest] = openRing(ring);
+    return [moveTo(first.x, first.y), ...rest.map((p) => lineTo(p.x, p.y)), closePath()];
+  });
+
+const zoneStyleOperators = (zone: Zone, gsName: PDFName): PDFOperator[] => {
+  const [r, g, b] = hexToRgb(zoneColor(zone));
+  return [setGraphicsState(gsName), setFillingRgbColor(r, g, b), setStrokingRgbColor(r, g, b), setLineWidth(LINE_WIDTH)];
+};
+
+const fillEvenOddAndStroke = () => PDFOperator.of(PDFOperatorNames.FillEvenOddAndStroke);
+
+const zoneSummary = (zone: Zone, area: string) => (zoneTitle(zone) ? `${zoneTitle(zone)} · ${area}` : area);
+
+// Standard fonts only cover WinAnsi, so anything else in a zone name is dropped from the label.
+const encodable = (font: PDFFont, text: string) => {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .filter((char) => supported.has(char.codePointAt(0) ?? 0))
+    .join("");
+};
+
+const addZoneAnnotation = (doc: PDFDocument, page: PDFPage, zone: Zone, area: string) => {
+  const { context } = doc;
+  const [minX, minY, maxX, maxY] = zoneBounds(zone.polygons);
+  const pad = LINE_WIDTH;
+  const bbox = [minX - pad, minY - pad, maxX + pad, maxY + pad];
+  const color = hexToRgb(zoneColor(zone));
+
+  // The appearance stream is what viewers draw; Vertices only carries the outline of the largest part.
+  const appearance = context.formXObject(
+    [
+      pushGraphicsState(),
+      ...zoneStyleOperators(zone, PDFName.of("GS0")),
+      ...zonePathOperators(zone.polygons),
+      fillEvenOddAndStroke(),
+      popGraphicsState(),
+    ],
+    {
+      BBox: bbox,
+      Resources: { ExtGState: { GS0: { Type: "ExtGState", ca: FILL_OPACITY, CA: 1 } } },
+    }
+  );
+  const annotation = context.obj({
+    Type: "Annot",
+    Subtype: "Polygon",
+    Rect: bbox,
+    Vertices: openRing(largestPart(zone.polygons)[0]).flatMap((p) => [p.x, p.y]),
+    C: color,
+    IC: color,
+    BS: { W: LINE_WIDTH },
+    F: 4,
+    NM: PDFHexString.fromText(zone.id),
+    T: PDFHexString.fromText(zoneTitle(zone) || "Zone"),
+    Subj: PDFHexString.fromText(categoryLabel(zone.category)),
+    Contents: PDFHexString.fromText(zone.notes ? `${zoneSummary(zone, area)}\n${zone.notes}` : zoneSummary(zone, area)),
+    AP: { N: context.register(appearance) },
+  });
+  page.node.addAnnot(context.register(annotation));
+};
+
+const drawFlattenedZone = (page: PDFPage, font: PDFFont, zone: Zone, area: string, gsName: PDFName) => {
+  page.pushOperators(
+    pushGraphicsState(),
+    ...zoneStyleOperators(zone, gsName),
+    ...zonePathOperators(zone.polygons),
+    fillEvenOddAndStroke(),
+    popGraphicsState()
+  );
+  const text = encodable(font, zoneSummary(zone, area));
+  const center = ringCentroid(largestPart(zone.polygons)[0]);
+  page.drawText(text, {
+    x: center.x - font.widthOfTextAtSize(text, LABEL_SIZE) / 2,
+    y: center.y - LABEL_SIZE / 3,
+    size: LABEL_SIZE,
+    font,
+    color: rgb(0.106, 0.227, 0.294),
+  });
+};
+
+/**
+ * Writes every zone into a copy of the loaded PDF, either as native Polygon
+ * annotations (selectable in Acrobat, with name, category and area) or as a
+ * flattened overlay drawn into the page content. Zones are already in PDF
+ * user space, so coordinates are written unchanged.
+ */
+export const exportAnnotatedPdf = async (
+  data: Uint8Array,
+  zonesByPage: ZonesByPage,
+  calibrations: CalibrationByPage,
+  mode: PdfExportMode
+): Promise<Uint8Array> => {
+  const doc = await PDFDocument.load(data);
+  const font = mode === "flatten" ? await doc.embedFont(StandardFonts.Helvetica) : null;
+  Object.keys(zonesByPage)
+    .map(Number)
+    .forEach((pageNumber) => {
+      const zones = zonesByPage[pageNumber];
+      if (!zones.length || pageNumber > doc.getPageCount()) return;
+      const page = doc.getPage(pageNumber - 1);
+      const areaOf = (zone: Zone) => formatArea(zoneArea(zone), calibrations[pageNumber]);
+      if (!font) {
+        zones.forEach((zone) => addZoneAnnotation(doc, page, zone, areaOf(zone)));
+        return;
+      }
+      // Wraps the existing content in q/Q so its graphics state can't leak into the overlay.
+      page.node.normalize();
+      const gsName = page.node.newExtGState("GS", doc.context.obj({ Type: "ExtGState", ca: FILL_OPACITY, CA: 1 }));
+      zones.forEach((zone) => drawFlattenedZone(page, font, zone, areaOf(zone), gsName));
+    });
+  return doc.save();
+};
@@ -0,0 +1,96 @@
+import { pdfjs } from "react-pdf";
+import { Point } from "../types/zones";
+import { Segment } from "./snapping";
+
+type Matrix = number[];
+
+// Mirrors pdf.js' internal DrawOPS codes used inside constructPath data.
+const DRAW_MOVE_TO = 0;
+const DRAW_LINE_TO = 1;
+const DRAW_CURVE_TO = 2;
+const DRAW_CLOSE_PATH = 3;
+const CURVE_STEPS = 4;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const applyTransform = (m: Matrix, x: number, y: number): Point => ({
+  x: m[0] * x + m[2] * y + m[4],
+  y: m[1] * x + m[3] * y + m[5],
+});
+
+const cubicAt = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+  const mt = 1 - t;
+  return mt * mt * mt * p0 + 3 * mt * mt * t * p1 + 3 * mt * t * t * p2 + t * t * t * p3;
+};
+
+/**
+ * Collects the straight segments of every painted path on a page, in PDF user
+ * space. Curves are flattened into a few chords. Clip-only paths are skipped.
+ */
+export const extractPageSegments = async (page: any): Promise<Segment[]> => {
+  const { OPS, Util } = pdfjs;
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const segments: Segment[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = IDENTITY;
+
+  // Path coordinates are in the space of the current transform; only the
+  // emitted segments are mapped to page space.
+  const readPath = (path: ArrayLike<number>) => {
+    let start: Point | null = null;
+    let last: Point | null = null;
+    const lineTo = (next: Point) => {
+      if (last && (last.x !== next.x || last.y !== next.y)) {
+        segments.push({ a: applyTransform(ctm, last.x, last.y), b: applyTransform(ctm, next.x, next.y) });
+      }
+      last = next;
+    };
+    for (let i = 0; i < path.length; ) {
+      switch (path[i++]) {
+        case DRAW_MOVE_TO:
+          start = last = { x: path[i++], y: path[i++] };
+          break;
+        case DRAW_LINE_TO:
+          lineTo({ x: path[i++], y: path[i++] });
+          break;
+        case DRAW_CURVE_TO: {
+          const [x1, y1, x2, y2, x3, y3] = Array.from({ length: 6 }, () => path[i++]);
+          const from: Point | null = last;
+          if (!from) break;
+          for (let step = 1; step <= CURVE_STEPS; step++) {
+            const t = step / CURVE_STEPS;
+            lineTo({ x: cubicAt(from.x, x1, x2, x3, t), y: cubicAt(from.y, y1, y2, y3, t) });
+          }
+          break;
+        }
+        case DRAW_CLOSE_PATH:
+          if (start) lineTo(start);
+          break;
+        default:
+          return;
+      }
+    }
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const fn = fnArray[i];
+    const args = argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? IDENTITY;
+    } else if (fn === OPS.transform) {
+      ctm = Util.transform(ctm, args);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (Array.isArray(args?.[0]) && args[0].length === 6) ctm = Util.transform(ctm, args[0]);
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? IDENTITY;
+    } else if (fn === OPS.constructPath) {
+      const [paintOp, data] = args;
+      const path = data?.[0];
+      if (paintOp !== OPS.endPath && path && typeof path.length === "number") readPath(path);
+    }
+  }
+  return segments;
+};
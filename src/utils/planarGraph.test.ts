@@ -0,0 +1,73 @@
+import { Point } from "../types/zones";
+import { ringArea } from "./geometry";
+import { findFaces, nodeSegments } from "./planarGraph";
+import { Segment } from "./snapping";
+
+const seg = (ax: number, ay: number, bx: number, by: number): Segment => ({ a: { x: ax, y: ay }, b: { x: bx, y: by } });
+
+// The closed outline of a rectangle as four segments.
+const box = (x: number, y: number, width: number, height: number): Segment[] => [
+  seg(x, y, x + width, y),
+  seg(x + width, y, x + width, y + height),
+  seg(x + width, y + height, x, y + height),
+  seg(x, y + height, x, y),
+];
+
+const sortedAreas = (faces: Point[][]) => faces.map(ringArea).sort((a, b) => a - b);
+
+describe("nodeSegments", () => {
+  test("splits two crossing segments at their crossing", () => {
+    const noded = nodeSegments([seg(0, 0, 10, 10), seg(0, 10, 10, 0)], 0.01);
+    expect(noded).toHaveLength(4);
+    expect(noded.filter(({ a, b }) => [a, b].some((p) => p.x === 5 && p.y === 5))).toHaveLength(4);
+  });
+
+  test("splits a segment where another one ends on it", () => {
+    const noded = nodeSegments([seg(0, 0, 10, 0), seg(5, 0, 5, 10)], 0.01);
+    expect(noded).toEqual([seg(0, 0, 5, 0), seg(5, 0, 10, 0), seg(5, 0, 5, 10)]);
+  });
+
+  test("merges endpoints within the tolerance and drops duplicates and zero-length segments", () => {
+    const noded = nodeSegments([seg(0, 0, 10, 0), seg(10.2, 0.1, 0.1, -0.2), seg(3, 3, 3.1, 3.1)], 1);
+    expect(noded).toEqual([seg(0, 0, 10, 0)]);
+  });
+
+  test("leaves parallel and disjoint segments whole", () => {
+    const input = [seg(0, 0, 10, 0), seg(0, 1, 10, 1), seg(20, 20, 30, 30)];
+    expect(nodeSegments(input, 0.01)).toEqual(input);
+  });
+
+  test("finds every crossing of a long segment that spans many grid cells", () => {
+    // Many short verticals set a small grid cell; the long horizontal crosses all of them.
+    const verticals = Array.from({ length: 50 }, (_, i) => seg(i * 10 + 5, -1, i * 10 + 5, 1));
+    const noded = nodeSegments([seg(0, 0, 500, 0), ...verticals], 0.01);
+    expect(noded.filter(({ a, b }) => a.y === 0 && b.y === 0)).toHaveLength(51);
+  });
+});
+
+describe("findFaces", () => {
+  test("traces the inside of a closed outline counter-clockwise", () => {
+    const faces = findFaces(box(0, 0, 10, 20));
+    expect(faces).toHaveLength(1);
+    expect(ringArea(faces[0])).toBe(200);
+  });
+
+  test("finds both rooms on either side of a shared wall", () => {
+    const faces = findFaces(nodeSegments([...box(0, 0, 20, 10), seg(10, 0, 10, 10)], 0.01));
+    expect(sortedAreas(faces)).toEqual([100, 100]);
+  });
+
+  test("prunes dangling walls that don't close a room", () => {
+    const faces = findFaces(nodeSegments([...box(0, 0, 20, 10), seg(10, 0, 10, 5), seg(30, 30, 40, 40)], 0.01));
+    expect(sortedAreas(faces)).toEqual([200]);
+  });
+
+  test("returns the islands inside a room as faces of their own", () => {
+    const faces = findFaces([...box(0, 0, 100, 100), ...box(40, 40, 20, 20)]);
+    expect(sortedAreas(faces)).toEqual([400, 10000]);
+  });
+
+  test("finds nothing in an open polyline", () => {
+    expect(findFaces([seg(0, 0, 10, 0), seg(10, 0, 10, 10)])).toEqual([]);
+  });
+});
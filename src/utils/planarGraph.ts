@@ -0,0 +1,166 @@
+import { Point } from "../types/zones";
+import { Segment } from "./snapping";
+
+const quantize = (p: Point, tolerance: number): Point => ({
+  x: Math.round(p.x / tolerance) * tolerance,
+  y: Math.round(p.y / tolerance) * tolerance,
+});
+
+const MAX_GRID_CELLS = 512;
+
+const key = (p: Point) => `${p.x},${p.y}`;
+
+const lerp = ({ a, b }: Segment, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Parameter along segment s where it crosses segment o, or null when they don't cross.
+const crossing = (s: Segment, o: Segment): number | null => {
+  const rx = s.b.x - s.a.x;
+  const ry = s.b.y - s.a.y;
+  const qx = o.b.x - o.a.x;
+  const qy = o.b.y - o.a.y;
+  const denom = rx * qy - ry * qx;
+  if (denom === 0) return null;
+  const t = ((o.a.x - s.a.x) * qy - (o.a.y - s.a.y) * qx) / denom;
+  const u = ((o.a.x - s.a.x) * ry - (o.a.y - s.a.y) * rx) / denom;
+  return t > 0 && t < 1 && u >= 0 && u <= 1 ? t : null;
+};
+
+/**
+ * Splits every segment wherever another segment crosses it, merging nearby
+ * endpoints, so the result is a planar line network that findFaces can walk.
+ */
+export const nodeSegments = (segments: Segment[], tolerance: number): Segment[] => {
+  const unique = new Map<string, Segment>();
+  segments.forEach(({ a, b }) => {
+    const qa = quantize(a, tolerance);
+    const qb = quantize(b, tolerance);
+    if (key(qa) === key(qb)) return;
+    const id = key(qa) < key(qb) ? `${key(qa)}|${key(qb)}` : `${key(qb)}|${key(qa)}`;
+    if (!unique.has(id)) unique.set(id, { a: qa, b: qb });
+  });
+  const input = Array.from(unique.values());
+  const boxes = input.map(({ a, b }) => [Math.min(a.x, b.x), Math.min(a.y, b.y), Math.max(a.x, b.x), Math.max(a.y, b.y)]);
+
+  // Segments are bucketed into a uniform grid about one typical segment wide,
+  // so each one is only tested against the few that share a cell with it.
+  // The grid is capped at MAX_GRID_CELLS a side, so one page-wide diagonal can't fill millions of cells.
+  const extent = boxes.reduce((sum, box) => sum + Math.max(box[2] - box[0], box[3] - box[1]), 0);
+  const span = boxes.reduce((widest, box) => Math.max(widest, Math.abs(box[0]), Math.abs(box[1]), Math.abs(box[2]), Math.abs(box[3])), 0);
+  const cellSize = Math.max(extent / Math.max(boxes.length, 1), span / MAX_GRID_CELLS, tolerance, 1e-9);
+  const cellRange = (box: number[]) => box.map((v) => Math.floor(v / cellSize));
+  const cells = new Map<string, number[]>();
+  boxes.forEach((box, i) => {
+    const [x0, y0, x1, y1] = cellRange(box);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const cell = `${cx},${cy}`;
+        const members = cells.get(cell);
+        if (members) members.push(i);
+        else cells.set(cell, [i]);
+      }
+    }
+  });
+  // Marks which segments were already tested against segment i, since long ones span many cells.
+  const testedFor = new Int32Array(input.length).fill(-1);
+
+  const noded: Segment[] = [];
+  input.forEach((segment, i) => {
+    const cuts = [0, 1];
+    const [minX, minY, maxX, maxY] = boxes[i];
+    const [x0, y0, x1, y1] = cellRange(boxes[i]);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        (cells.get(`${cx},${cy}`) ?? []).forEach((j) => {
+          if (i === j || testedFor[j] === i) return;
+          testedFor[j] = i;
+          const box = boxes[j];
+          if (box[0] > maxX || box[2] < minX || box[1] > maxY || box[3] < minY) return;
+          const t = crossing(segment, input[j]);
+          if (t !== null) cuts.push(t);
+        });
+      }
+    }
+    cuts.sort((a, b) => a - b);
+    for (let k = 1; k < cuts.length; k++) {
+      const from = quantize(lerp(segment, cuts[k - 1]), tolerance);
+      const to = quantize(lerp(segment, cuts[k]), tolerance);
+      if (key(from) !== key(to)) noded.push({ a: from, b: to });
+    }
+  });
+  return noded;
+};
+
+const signedArea = (ring: Point[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+};
+
+/**
+ * Walks the faces of a noded line network. Dangling edges are pruned first;
+ * each half-edge is then followed by the next edge clockwise around its end
+ * vertex, which traces bounded faces counter-clockwise (positive area).
+ */
+export const findFaces = (segments: Segment[]): Point[][] => {
+  const points = new Map<string, Point>();
+  const neighbours = new Map<string, Set<string>>();
+  segments.forEach(({ a, b }) => {
+    const ka = key(a);
+    const kb = key(b);
+    points.set(ka, a);
+    points.set(kb, b);
+    if (!neighbours.has(ka)) neighbours.set(ka, new Set());
+    if (!neighbours.has(kb)) neighbours.set(kb, new Set());
+    neighbours.get(ka)!.add(kb);
+    neighbours.get(kb)!.add(ka);
+  });
+
+  const dangling = Array.from(neighbours.keys()).filter((k) => neighbours.get(k)!.size < 2);
+  while (dangling.length) {
+    const k = dangling.pop()!;
+    const adjacent = neighbours.get(k);
+    if (!adjacent) continue;
+    adjacent.forEach((other) => {
+      const otherAdjacent = neighbours.get(other)!;
+      otherAdjacent.delete(k);
+      if (otherAdjacent.size < 2) dangling.push(other);
+    });
+    neighbours.delete(k);
+  }
+
+  // Outgoing neighbours of each vertex, sorted counter-clockwise by angle.
+  const sorted = new Map<string, string[]>();
+  neighbours.forEach((adjacent, k) => {
+    const origin = points.get(k)!;
+    const angle = (other: string) => {
+      const p = points.get(other)!;
+      return Math.atan2(p.y - origin.y, p.x - origin.x);
+    };
+    sorted.set(k, Array.from(adjacent).sort((a, b) => angle(a) - angle(b)));
+  });
+
+  const visited = new Set<string>();
+  const faces: Point[][] = [];
+  sorted.forEach((outgoing, from) => {
+    outgoing.forEach((to) => {
+      const ring: Point[] = [];
+      let u = from;
+      let v = to;
+      while (!visited.has(`${u}>${v}`)) {
+        visited.add(`${u}>${v}`);
+        ring.push(points.get(u)!);
+        const around = sorted.get(v)!;
+        const back = around.indexOf(u);
+        const next = around[(back - 1 + around.length) % around.length];
+        u = v;
+        v = next;
+      }
+      if (ring.length >= 3 && signedArea(ring) > 0) faces.push(ring);
+    });
+  });
+  return faces;
+};
@@ -0,0 +1,59 @@
+import { polygonArea, ringArea } from "./geometry";
+import { detectRooms, RoomDetectionOptions } from "./roomDetection";
+import { Segment } from "./snapping";
+
+const seg = (ax: number, ay: number, bx: number, by: number): Segment => ({ a: { x: ax, y: ay }, b: { x: bx, y: by } });
+
+const box = (x: number, y: number, width: number, height: number): Segment[] => [
+  seg(x, y, x + width, y),
+  seg(x + width, y, x + width, y + height),
+  seg(x + width, y + height, x, y + height),
+  seg(x, y + height, x, y),
+];
+
+const OPTIONS: RoomDetectionOptions = { minArea: 100, maxPageFraction: 0.5, tolerance: 0.5 };
+const PAGE_AREA = 1000 * 1000;
+
+describe("detectRooms", () => {
+  test("returns the rooms either side of a wall, largest first", () => {
+    const rooms = detectRooms([...box(0, 0, 300, 100), seg(100, 0, 100, 100)], PAGE_AREA, OPTIONS);
+    expect(rooms.map((rings) => ringArea(rings[0]))).toEqual([20000, 10000]);
+    rooms.forEach((rings) => expect(rings).toHaveLength(1));
+  });
+
+  test("joins wall lines that stop just short of each other", () => {
+    const walls = [seg(0, 0, 99.8, 0), seg(100, 0.2, 100, 100), seg(100, 100, 0.1, 100), seg(0, 99.9, 0, 0.2)];
+    const rooms = detectRooms(walls, PAGE_AREA, OPTIONS);
+    expect(rooms).toHaveLength(1);
+  });
+
+  test("drops faces below the minimum area and the sheet frame", () => {
+    const walls = [...box(0, 0, 1000, 1000), ...box(100, 100, 200, 200), ...box(500, 500, 5, 5)];
+    const rooms = detectRooms(walls, PAGE_AREA, OPTIONS);
+    expect(rooms.map((rings) => ringArea(rings[0]))).toEqual([40000]);
+  });
+
+  test("drops the sliver between the two lines of a thick wall", () => {
+    // Two rooms separated by a 2-unit-thick wall drawn as two lines.
+    const walls = [...box(0, 0, 100, 100), ...box(102, 0, 100, 100), seg(100, 0, 102, 0), seg(100, 100, 102, 100)];
+    const rooms = detectRooms(walls, PAGE_AREA, OPTIONS);
+    expect(rooms.map((rings) => ringArea(rings[0]))).toEqual([10000, 10000]);
+  });
+
+  test("cuts a free-standing closet out of the room around it", () => {
+    const rooms = detectRooms([...box(0, 0, 200, 100), ...box(20, 20, 40, 30)], PAGE_AREA, OPTIONS);
+    expect(rooms).toHaveLength(2);
+    const [room, closet] = rooms;
+    expect(room).toHaveLength(2);
+    expect(polygonArea(room)).toBe(20000 - 1200);
+    expect(closet).toHaveLength(1);
+    expect(ringArea(closet[0])).toBe(1200);
+  });
+
+  test("only cuts out the outermost enclosure, leaving what is inside it a room of its own", () => {
+    const walls = [...box(0, 0, 300, 300), ...box(50, 50, 200, 200), ...box(100, 100, 50, 50)];
+    const rooms = detectRooms(walls, PAGE_AREA, OPTIONS);
+    expect(rooms.map((rings) => rings.length)).toEqual([2, 2, 1]);
+    expect(rooms.map(polygonArea)).toEqual([90000 - 40000, 40000 - 2500, 2500]);
+  });
+});
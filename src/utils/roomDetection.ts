@@ -0,0 +1,50 @@
+import { PolygonRings } from "../types/zones";
+import { interiorPoint, pointInRings, ringArea, ringLength } from "./geometry";
+import { findFaces, nodeSegments } from "./planarGraph";
+import { Segment } from "./snapping";
+
+export interface RoomDetectionOptions {
+  // Smallest room to suggest, in square PDF units.
+  minArea: number;
+  // Faces covering more than this share of the page are treated as the sheet frame.
+  maxPageFraction: number;
+  // Endpoints closer than this (PDF units) are merged before noding.
+  tolerance: number;
+}
+
+// area / perimeter² for a square is 1/16; long wall-thickness slivers fall far below this.
+const MIN_COMPACTNESS = 0.008;
+
+/**
+ * Finds closed regions in a page's vector line work and returns them as
+ * candidate zone outlines, largest first. Slivers (typically the gap between
+ * the two lines of a wall), tiny faces and the sheet frame are dropped.
+ * Faces are traced as shells, so a free-standing enclosure inside a room (a
+ * closet, stair core or shaft) is cut out of the room as a hole.
+ */
+export const detectRooms = (segments: Segment[], pageArea: number, options: RoomDetectionOptions): PolygonRings[] => {
+  const faces = findFaces(nodeSegments(segments, options.tolerance));
+
+  const candidates = faces.filter((ring) => {
+    const area = ringArea(ring);
+    const perimeter = ringLength(ring);
+    return (
+      area >= options.minArea &&
+      area <= pageArea * options.maxPageFraction &&
+      area / (perimeter * perimeter) >= MIN_COMPACTNESS
+    );
+  });
+
+  // Faces that share walls never nest, so a face whose inner point lies in a larger face is enclosed by it.
+  const inside = candidates.map((ring) => interiorPoint([ring]));
+  const encloses = (outer: number, inner: number) =>
+    outer !== inner && ringArea(candidates[inner]) < ringArea(candidates[outer]) && pointInRings(inside[inner], [candidates[outer]]);
+  return candidates
+    .map((ring, idx): PolygonRings => {
+      const children = candidates.map((_, j) => j).filter((j) => encloses(idx, j));
+      // Only the outermost enclosures become holes; anything inside them is a room of its own.
+      const holes = children.filter((j) => !children.some((k) => encloses(k, j)));
+      return [ring, ...holes.map((j) => candidates[j])];
+    })
+    .sort((a, b) => ringArea(b[0]) - ringArea(a[0]));
+};
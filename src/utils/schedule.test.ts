@@ -0,0 +1,54 @@
+import { Point } from "../types/zones";
+import { calibrationFromLine } from "./measurement";
+import { zoneSchedule } from "./schedule";
+import { createZone } from "./zones";
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+const HEADER = "id,number,name,category,page,vertices,holes,area,area_unit,perimeter,perimeter_unit";
+
+const lines = (schedule: string) => schedule.split("\r\n");
+
+describe("zoneSchedule", () => {
+  test("lists zones page by page in points when a page is uncalibrated", () => {
+    const office = createZone([[rect(0, 0, 100, 50)]], { id: "a", name: "Office", number: "101", category: "office" });
+    const store = createZone([[rect(0, 0, 10, 10)]], { id: "b", name: "Store", category: "storage" });
+    const schedule = zoneSchedule({ 2: [store], 1: [office] }, {}, "csv");
+    expect(lines(schedule)).toEqual([
+      HEADER,
+      "a,101,Office,Office,1,4,0,5000.00,pt²,300.00,pt",
+      "b,,Store,Storage,2,4,0,100.00,pt²,40.00,pt",
+      "",
+    ]);
+  });
+
+  test("uses each page's calibration and counts holes and vertices across parts", () => {
+    // 10 PDF units per metre.
+    const calibration = calibrationFromLine(10, 1, "m");
+    const zone = createZone([[rect(0, 0, 100, 100), rect(40, 40, 20, 20)], [rect(200, 0, 10, 10)]], { id: "c" });
+    const [, row] = lines(zoneSchedule({ 1: [zone] }, { 1: calibration }, "csv"));
+    expect(row).toBe("c,,,Unassigned,1,12,1,97.00,m²,44.00,m");
+  });
+
+  test("quotes CSV fields with commas, quotes or line breaks", () => {
+    const zone = createZone([[rect(0, 0, 10, 10)]], { id: "d", name: 'Lobby, "main"\nnorth' });
+    const [, row] = lines(zoneSchedule({ 1: [zone] }, {}, "csv"));
+    expect(row.startsWith('d,,"Lobby, ""main""\nnorth",')).toBe(true);
+  });
+
+  test("writes TSV with tabs and line breaks in fields turned into spaces", () => {
+    const zone = createZone([[rect(0, 0, 10, 10)]], { id: "e", name: "Plant\troom\r\n2" });
+    const [header, row] = lines(zoneSchedule({ 1: [zone] }, {}, "tsv"));
+    expect(header).toBe(HEADER.replace(/,/g, "\t"));
+    expect(row.split("\t").slice(0, 3)).toEqual(["e", "", "Plant room 2"]);
+  });
+
+  test("is just the header when there are no zones", () => {
+    expect(zoneSchedule({}, {}, "csv")).toBe(`${HEADER}\r\n`);
+  });
+});
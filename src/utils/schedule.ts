@@ -0,0 +1,45 @@
+import { ZonesByPage } from "../types/zones";
+import { openRing } from "./geometry";
+import { CalibrationByPage, measureArea, measureLength, zoneArea, zonePerimeter } from "./measurement";
+import { categoryLabel } from "./zones";
+
+export type ScheduleFormat = "csv" | "tsv";
+
+const HEADER = ["id", "number", "name", "category", "page", "vertices", "holes", "area", "area_unit", "perimeter", "perimeter_unit"];
+
+// CSV quotes fields that need it; TSV has no quoting, so tabs and line breaks become spaces.
+const escapeField = (value: string, format: ScheduleFormat) => {
+  if (format === "tsv") return value.replace(/[\t\r\n]+/g, " ");
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Builds the zone schedule: one row per zone across all pages, with area and
+ * perimeter in each page's calibrated unit (PDF points when uncalibrated).
+ */
+export const zoneSchedule = (zonesByPage: ZonesByPage, calibrations: CalibrationByPage, format: ScheduleFormat) => {
+  const rows = Object.keys(zonesByPage)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap((page) =>
+      zonesByPage[page].map((zone) => {
+        const area = measureArea(zoneArea(zone), calibrations[page]);
+        const perimeter = measureLength(zonePerimeter(zone), calibrations[page]);
+        return [
+          zone.id,
+          zone.number ?? "",
+          zone.name,
+          categoryLabel(zone.category),
+          String(page),
+          String(zone.polygons.flat().reduce((sum, ring) => sum + openRing(ring).length, 0)),
+          String(zone.polygons.reduce((sum, rings) => sum + rings.length - 1, 0)),
+          area.value.toFixed(2),
+          area.unit,
+          perimeter.value.toFixed(2),
+          perimeter.unit,
+        ];
+      })
+    );
+  const delimiter = format === "tsv" ? "\t" : ",";
+  return [HEADER, ...rows].map((row) => row.map((field) => escapeField(field, format)).join(delimiter)).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,114 @@
+import { ZonesByPage } from "../types/zones";
+import { History } from "./history";
+import { CalibrationByPage } from "./measurement";
+
+export interface StoredSession {
+  fingerprint: string;
+  fileName: string;
+  numPages: number;
+  currentPage: number;
+  savedAt: number;
+  zonesByPage: ZonesByPage;
+  calibrations: CalibrationByPage;
+  history: History;
+}
+
+export interface SessionSummary {
+  fingerprint: string;
+  fileName: string;
+  savedAt: number;
+  zoneCount: number;
+  hasDocument: boolean;
+}
+
+const DB_NAME = "pdf-zone-editor";
+const DB_VERSION = 1;
+// Sessions are small and listed often; the PDF bytes live in their own store
+// so listing recent projects never loads whole documents.
+const SESSIONS = "sessions";
+const DOCUMENTS = "documents";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSIONS, { keyPath: "fingerprint" });
+        request.result.createObjectStore(DOCUMENTS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. blocked by another tab).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(stores: string[], mode: IDBTransactionMode, action: (tx: IDBTransaction) => IDBRequest<T> | void) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = action(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/** Key for a document: pdf.js fingerprints stay the same across reloads of the same file. */
+export const documentFingerprint = (pdfDoc: { fingerprints: (string | null)[] }) =>
+  pdfDoc.fingerprints.filter(Boolean).join(":");
+
+export const saveSession = (session: StoredSession) =>
+  run([SESSIONS], "readwrite", (tx) => {
+    tx.objectStore(SESSIONS).put(session);
+  });
+
+export const loadSession = (fingerprint: string) =>
+  run<StoredSession>([SESSIONS], "readonly", (tx) => tx.objectStore(SESSIONS).get(fingerprint));
+
+export const saveDocument = (fingerprint: string, data: Uint8Array) =>
+  run([DOCUMENTS], "readwrite", (tx) => {
+    tx.objectStore(DOCUMENTS).put(data, fingerprint);
+  });
+
+export const loadDocument = (fingerprint: string) =>
+  run<Uint8Array>([DOCUMENTS], "readonly", (tx) => tx.objectStore(DOCUMENTS).get(fingerprint));
+
+// Most recently saved first.
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const [sessions, documentKeys] = await Promise.all([
+    run<StoredSession[]>([SESSIONS], "readonly", (tx) => tx.objectStore(SESSIONS).getAll()),
+    run<IDBValidKey[]>([DOCUMENTS], "readonly", (tx) => tx.objectStore(DOCUMENTS).getAllKeys()),
+  ]);
+  return (sessions ?? [])
+    .map((session) => ({
+      fingerprint: session.fingerprint,
+      fileName: session.fileName,
+      savedAt: session.savedAt,
+      zoneCount: Object.values(session.zonesByPage).flat().length,
+      hasDocument: (documentKeys ?? []).includes(session.fingerprint),
+    }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const deleteSession = (fingerprint: string) =>
+  run([SESSIONS, DOCUMENTS], "readwrite", (tx) => {
+    tx.objectStore(SESSIONS).delete(fingerprint);
+    tx.objectStore(DOCUMENTS).delete(fingerprint);
+  });
+
+export const clearSessions = () =>
+  run([SESSIONS, DOCUMENTS], "readwrite", (tx) => {
+    tx.objectStore(SESSIONS).clear();
+    tx.objectStore(DOCUMENTS).clear();
+  });
@@ -0,0 +1,76 @@
+import { Point, ShapeRect, ShapeType, ZoneShape } from "../types/zones";
+import { distance } from "./geometry";
+
+export const SHAPE_TYPES: { value: ShapeType; label: string }[] = [
+  { value: "rectangle", label: "Rectangle" },
+  { value: "circle", label: "Circle" },
+  { value: "triangle", label: "Triangle" },
+];
+
+// Circles become polygons with this many sides; enough to read as round at plan zoom levels.
+const CIRCLE_STEPS = 48;
+
+export const isZoneShape = (value: unknown): value is ZoneShape => {
+  const shape = value as Partial<ZoneShape> | null;
+  const rect = shape?.rect as Partial<ShapeRect> | undefined;
+  return (
+    !!shape &&
+    SHAPE_TYPES.some((t) => t.value === shape.type) &&
+    !!rect &&
+    [rect.x, rect.y, rect.width, rect.height].every((n) => typeof n === "number" && Number.isFinite(n)) &&
+    (rect.width as number) > 0 &&
+    (rect.height as number) > 0
+  );
+};
+
+export const rectFromCorners = (a: Point, b: Point): ShapeRect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+// Corners in order around the box, so the opposite of corner i is (i + 2) % 4.
+export const shapeCorners = ({ x, y, width, height }: ShapeRect): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+/** Outer ring of the polygon a primitive stands for, in PDF user space. */
+export const shapeRing = ({ type, rect }: ZoneShape): Point[] => {
+  const { x, y, width, height } = rect;
+  switch (type) {
+    case "rectangle":
+      return shapeCorners(rect);
+    case "circle":
+      return Array.from({ length: CIRCLE_STEPS }, (_, i) => {
+        const angle = (2 * Math.PI * i) / CIRCLE_STEPS;
+        return { x: x + width / 2 + (width / 2) * Math.cos(angle), y: y + height / 2 + (height / 2) * Math.sin(angle) };
+      });
+    case "triangle":
+      // PDF y grows upwards, so the apex sits on the top edge at y + height.
+      return [{ x, y }, { x: x + width, y }, { x: x + width / 2, y: y + height }];
+  }
+};
+
+export const findShapeCorner = (shape: ZoneShape, point: Point, tolerance: number): number | null => {
+  const corners = shapeCorners(shape.rect);
+  let best: number | null = null;
+  let bestDist = tolerance;
+  corners.forEach((corner, idx) => {
+    const d = distance(point, corner);
+    if (d < bestDist) {
+      bestDist = d;
+      best = idx;
+    }
+  });
+  return best;
+};
+
+// Moves one corner while the opposite corner stays put.
+export const resizeShape = (shape: ZoneShape, cornerIndex: number, point: Point): ZoneShape => ({
+  ...shape,
+  rect: rectFromCorners(shapeCorners(shape.rect)[(cornerIndex + 2) % 4], point),
+});
@@ -0,0 +1,78 @@
+import { closestPointOnSegment, constrainAngle, findSnap, pointAlong, projectOntoLine, segmentAngle, snapToGrid } from "./snapping";
+
+const expectPoint = (actual: { x: number; y: number }, x: number, y: number) => {
+  expect(actual.x).toBeCloseTo(x);
+  expect(actual.y).toBeCloseTo(y);
+};
+
+describe("closestPointOnSegment", () => {
+  const segment = { a: { x: 0, y: 0 }, b: { x: 10, y: 0 } };
+
+  test("projects onto the segment and clamps to its end points", () => {
+    expect(closestPointOnSegment({ x: 4, y: 3 }, segment)).toEqual({ x: 4, y: 0 });
+    expect(closestPointOnSegment({ x: -5, y: 3 }, segment)).toEqual({ x: 0, y: 0 });
+    expect(closestPointOnSegment({ x: 15, y: -3 }, segment)).toEqual({ x: 10, y: 0 });
+  });
+});
+
+describe("findSnap", () => {
+  const wall = { a: { x: 0, y: 0 }, b: { x: 100, y: 0 } };
+  const targets = { vertices: [{ x: 50, y: 50 }], segments: [wall] };
+
+  test("prefers a vertex within reach over any edge", () => {
+    expect(findSnap({ x: 52, y: 49 }, targets, 5)).toEqual({ point: { x: 50, y: 50 }, kind: "vertex" });
+  });
+
+  test("snaps to the nearest point on an edge", () => {
+    expect(findSnap({ x: 30, y: 2 }, targets, 5)).toEqual({ point: { x: 30, y: 0 }, kind: "edge" });
+  });
+
+  test("prefers the foot of the perpendicular from the previous point", () => {
+    expect(findSnap({ x: 23, y: 2 }, targets, 5, { x: 20, y: 40 })).toEqual({ point: { x: 20, y: 0 }, kind: "perpendicular" });
+  });
+
+  test("doesn't call a foot clamped to an end point perpendicular", () => {
+    // From (-30, 40) the perpendicular misses the wall, so the nearest edge point wins.
+    expect(findSnap({ x: 2, y: 2 }, targets, 5, { x: -30, y: 40 })).toEqual({ point: { x: 2, y: 0 }, kind: "edge" });
+  });
+
+  test("returns null when nothing is within reach", () => {
+    expect(findSnap({ x: 30, y: 20 }, targets, 5)).toBeNull();
+  });
+});
+
+describe("drawing aids", () => {
+  test("segmentAngle measures counter-clockwise from the x axis", () => {
+    expect(segmentAngle({ x: 0, y: 0 }, { x: 0, y: 5 })).toBeCloseTo(Math.PI / 2);
+    expect(segmentAngle({ x: 1, y: 1 }, { x: 0, y: 1 })).toBeCloseTo(Math.PI);
+  });
+
+  test("pointAlong walks a given length towards a point, even past it", () => {
+    expectPoint(pointAlong({ x: 0, y: 0 }, { x: 3, y: 4 }, 10), 6, 8);
+    expect(pointAlong({ x: 1, y: 1 }, { x: 1, y: 1 }, 5)).toEqual({ x: 1, y: 1 });
+  });
+
+  test("constrainAngle turns the segment to the nearest 45° step and keeps its length", () => {
+    expectPoint(constrainAngle({ x: 0, y: 0 }, { x: 10, y: 1 }), 10.05, 0);
+    const diagonal = constrainAngle({ x: 0, y: 0 }, { x: 10, y: 8 });
+    expectPoint(diagonal, Math.hypot(10, 8) / Math.SQRT2, Math.hypot(10, 8) / Math.SQRT2);
+  });
+
+  test("constrainAngle steps from a reference direction", () => {
+    // Steps of 90° from a wall running at 30°.
+    const reference = Math.PI / 6;
+    const point = constrainAngle({ x: 0, y: 0 }, { x: 9, y: 6 }, reference, Math.PI / 2);
+    expect(segmentAngle({ x: 0, y: 0 }, point)).toBeCloseTo(reference);
+  });
+
+  test("projectOntoLine drops a perpendicular onto the line, beyond the segment too", () => {
+    expectPoint(projectOntoLine({ x: 5, y: 5 }, { x: 0, y: 0 }, { x: 10, y: 0 }), 5, 0);
+    expectPoint(projectOntoLine({ x: 20, y: 3 }, { x: 0, y: 0 }, { x: 10, y: 0 }), 20, 0);
+    expect(projectOntoLine({ x: 5, y: 5 }, { x: 1, y: 1 }, { x: 1, y: 1 })).toEqual({ x: 1, y: 1 });
+  });
+
+  test("snapToGrid rounds to the nearest grid crossing", () => {
+    expect(snapToGrid({ x: 12, y: -7 }, 5)).toEqual({ x: 10, y: -5 });
+    expect(snapToGrid({ x: 12.6, y: 2.4 }, 0.5)).toEqual({ x: 12.5, y: 2.5 });
+  });
+});
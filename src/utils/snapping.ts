@@ -0,0 +1,115 @@
+import { Point, Zone } from "../types/zones";
+import { distance } from "./geometry";
+
+export interface Segment {
+  a: Point;
+  b: Point;
+}
+
+// "grid" and "angle" come from the drawing aids rather than from existing geometry.
+export type SnapKind = "vertex" | "perpendicular" | "edge" | "grid" | "angle";
+
+export interface SnapResult {
+  point: Point;
+  kind: SnapKind;
+}
+
+export interface SnapTargets {
+  vertices: Point[];
+  segments: Segment[];
+}
+
+// How far along segment ab the projection of p falls: 0 at a, 1 at b, outside that past the ends.
+const segmentParameter = (p: Point, { a, b }: Segment) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  return lengthSq === 0 ? 0 : ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+};
+
+const pointAtParameter = ({ a, b }: Segment, t: number): Point => ({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+
+// Projects p onto segment ab, clamped to the segment's end points.
+export const closestPointOnSegment = (p: Point, segment: Segment): Point =>
+  pointAtParameter(segment, Math.max(0, Math.min(1, segmentParameter(p, segment))));
+
+export const zoneSegments = (zones: Zone[]): Segment[] =>
+  zones.flatMap((zone) =>
+    zone.polygons.flat().flatMap((ring) =>
+      ring.map((a, i) => ({ a, b: ring[(i + 1) % ring.length] })).filter(({ a, b }) => a.x !== b.x || a.y !== b.y)
+    )
+  );
+
+export const zoneVertices = (zones: Zone[]): Point[] => zones.flatMap((zone) => zone.polygons.flat(2));
+
+/**
+ * Finds the best snap for `point` within `threshold` (same units as the
+ * targets). Vertices win over edges; when the previous point of the polygon
+ * being drawn is known, the foot of the perpendicular from it onto an edge
+ * wins over the plain nearest point on that edge.
+ */
+export const findSnap = (point: Point, targets: SnapTargets, threshold: number, previous?: Point): SnapResult | null => {
+  let best: SnapResult | null = null;
+  let bestDist = threshold;
+  for (const vertex of targets.vertices) {
+    const d = distance(point, vertex);
+    if (d < bestDist) {
+      bestDist = d;
+      best = { point: vertex, kind: "vertex" };
+    }
+  }
+  if (best) return best;
+
+  if (previous) {
+    for (const segment of targets.segments) {
+      // A foot clamped to an end point isn't perpendicular; the end point itself is a vertex snap.
+      const t = segmentParameter(previous, segment);
+      if (t <= 0 || t >= 1) continue;
+      const foot = pointAtParameter(segment, t);
+      const d = distance(point, foot);
+      if (d < bestDist) {
+        bestDist = d;
+        best = { point: foot, kind: "perpendicular" };
+      }
+    }
+    if (best) return best;
+  }
+
+  for (const segment of targets.segments) {
+    const nearest = closestPointOnSegment(point, segment);
+    const d = distance(point, nearest);
+    if (d < bestDist) {
+      bestDist = d;
+      best = { point: nearest, kind: "edge" };
+    }
+  }
+  return best;
+};
+
+// With Shift held, segments turn in steps of this many radians (45°).
+export const ANGLE_STEP = Math.PI / 4;
+
+export const segmentAngle = (a: Point, b: Point) => Math.atan2(b.y - a.y, b.x - a.x);
+
+// The point `length` away from `from` in the direction of `towards`.
+export const pointAlong = (from: Point, towards: Point, length: number): Point => {
+  const d = distance(from, towards);
+  if (d === 0) return from;
+  return { x: from.x + ((towards.x - from.x) * length) / d, y: from.y + ((towards.y - from.y) * length) / d };
+};
+
+/** Keeps the distance from `from` but turns the direction to the nearest multiple of `step` past `reference`. */
+export const constrainAngle = (from: Point, point: Point, reference = 0, step = ANGLE_STEP): Point => {
+  const length = distance(from, point);
+  const angle = reference + Math.round((segmentAngle(from, point) - reference) / step) * step;
+  return { x: from.x + length * Math.cos(angle), y: from.y + length * Math.sin(angle) };
+};
+
+// Foot of the perpendicular from p onto the infinite line through a and b.
+export const projectOntoLine = (p: Point, a: Point, b: Point): Point => pointAtParameter({ a, b }, segmentParameter(p, { a, b }));
+
+// Grid lines run through the PDF origin every `spacing` units.
+export const snapToGrid = (point: Point, spacing: number): Point => ({
+  x: Math.round(point.x / spacing) * spacing,
+  y: Math.round(point.y / spacing) * spacing,
+});
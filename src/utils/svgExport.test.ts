@@ -0,0 +1,51 @@
+import { Point } from "../types/zones";
+import { ViewportLike } from "./geometry";
+import { zonesToSvg } from "./svgExport";
+import { createZone } from "./zones";
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+// A 100 × 100 pt page shown at 2x, with y flipped like pdf.js does.
+const viewport: ViewportLike = {
+  scale: 2,
+  width: 200,
+  height: 200,
+  convertToViewportPoint: (x, y) => [x * 2, 200 - y * 2],
+  convertToPdfPoint: (x, y) => [x / 2, (200 - y) / 2],
+};
+
+describe("zonesToSvg", () => {
+  test("sizes the document to the viewport", () => {
+    const svg = zonesToSvg([], viewport);
+    expect(svg).toBe('<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200">\n</svg>\n');
+  });
+
+  test("draws every ring of a zone in one even-odd path in viewport coordinates", () => {
+    const zone = createZone([[rect(10, 10, 50, 50), rect(20, 20, 10, 10)]], { id: "z1", color: "#ff0000" });
+    const svg = zonesToSvg([zone], viewport);
+    expect(svg).toContain('<g data-zone-id="z1">');
+    expect(svg).toContain(
+      'd="M 20 180 L 120 180 L 120 80 L 20 80 Z M 40 160 L 60 160 L 60 140 L 40 140 Z" fill="#ff0000" fill-opacity="0.4" fill-rule="evenodd"'
+    );
+  });
+
+  test("labels a zone with its title and net area at its largest part", () => {
+    const zone = createZone([[rect(0, 0, 5, 5)], [rect(50, 50, 40, 40)]], { name: "Hall", number: "G01" });
+    const svg = zonesToSvg([zone], viewport);
+    expect(svg).toContain("<title>G01 Hall · 1625 pt²</title>");
+    expect(svg).toContain('<text x="140" y="60"');
+  });
+
+  test("escapes names and ids", () => {
+    const zone = createZone([[rect(0, 0, 10, 10)]], { id: 'a"b', name: "R&D <lab>" });
+    const svg = zonesToSvg([zone], viewport);
+    expect(svg).toContain('data-zone-id="a&quot;b"');
+    expect(svg).toContain("R&amp;D &lt;lab&gt; · 100 pt²");
+    expect(svg).not.toContain("<lab>");
+  });
+});
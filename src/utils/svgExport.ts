@@ -0,0 +1,43 @@
+import { Zone } from "../types/zones";
+import { largestPart, ringCentroid, ringsToViewport, toViewportPoint, ViewportLike } from "./geometry";
+import { Calibration, formatArea, zoneArea } from "./measurement";
+import { zoneColor, zoneTitle } from "./zones";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Renders a page's zones as a standalone SVG in viewport coordinates. All
+ * rings of a zone share one path with an even-odd fill, matching the canvas,
+ * so holes stay empty.
+ */
+export const zonesToSvg = (zones: Zone[], viewport: ViewportLike, calibration?: Calibration) => {
+  const shapes = zones.map((zone) => {
+    const d = zone.polygons
+      .flatMap((rings) => ringsToViewport(viewport, rings))
+      .map((ring) => `M ${ring.map((p) => `${round(p.x)} ${round(p.y)}`).join(" L ")} Z`)
+      .join(" ");
+    const color = zoneColor(zone);
+    const area = formatArea(zoneArea(zone), calibration);
+    const label = zoneTitle(zone) ? `${zoneTitle(zone)} · ${area}` : area;
+    const center = toViewportPoint(viewport, ringCentroid(largestPart(zone.polygons)[0]));
+    return [
+      `  <g data-zone-id="${escapeXml(zone.id)}">`,
+      `    <title>${escapeXml(label)}</title>`,
+      `    <path d="${d}" fill="${color}" fill-opacity="0.4" fill-rule="evenodd" stroke="${color}" stroke-width="2"/>`,
+      `    <text x="${round(center.x)}" y="${round(center.y)}" text-anchor="middle" dominant-baseline="middle" ` +
+        `font-family="sans-serif" font-size="12" fill="#1b3a4b" stroke="white" stroke-width="3" paint-order="stroke">${escapeXml(label)}</text>`,
+      "  </g>",
+    ].join("\n");
+  });
+  const width = round(viewport.width);
+  const height = round(viewport.height);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...shapes,
+    "</svg>",
+    "",
+  ].join("\n");
+};
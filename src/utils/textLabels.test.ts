@@ -0,0 +1,82 @@
+import { Point } from "../types/zones";
+import { extractPageText, PageText, suggestZoneLabels } from "./textLabels";
+import { createZone, MAX_NAME_LENGTH } from "./zones";
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+const text = (str: string, x: number, y: number, height = 10): PageText => ({ str, center: { x, y }, height });
+
+describe("extractPageText", () => {
+  test("centres each run along its baseline and skips empty ones", async () => {
+    const page = {
+      getTextContent: async () => ({
+        items: [
+          { str: "  Living \n Room ", transform: [10, 0, 0, 10, 100, 200], width: 60, height: 10 },
+          { str: "   ", transform: [10, 0, 0, 10, 0, 0], width: 5, height: 10 },
+          { str: "101" },
+        ],
+      }),
+    };
+    expect(await extractPageText(page)).toEqual([{ str: "Living Room", center: { x: 130, y: 205 }, height: 10 }]);
+  });
+
+  test("keeps the centre of rotated text inside the run", async () => {
+    const page = {
+      getTextContent: async () => ({ items: [{ str: "Stair", transform: [0, 10, -10, 0, 50, 50], width: 40, height: 10 }] }),
+    };
+    const [{ center }] = await extractPageText(page);
+    expect(center.x).toBeCloseTo(45);
+    expect(center.y).toBeCloseTo(70);
+  });
+});
+
+describe("suggestZoneLabels", () => {
+  const room = createZone([[rect(0, 0, 100, 100)]], { id: "room" });
+
+  test("takes the number and the largest line of text inside the zone", () => {
+    const texts = [text("Kitchen", 50, 60, 12), text("B-101", 50, 40), text("tiles", 50, 30, 6), text("Hall", 200, 50, 20)];
+    expect(suggestZoneLabels(2, [room], texts)).toEqual([{ page: 2, zoneId: "room", name: "Kitchen", number: "B-101" }]);
+  });
+
+  test("joins runs on one baseline into one name", () => {
+    const texts = [text("Room", 70, 50), text("Living", 30, 51)];
+    expect(suggestZoneLabels(1, [room], texts)[0].name).toBe("Living Room");
+  });
+
+  test("picks the first number in reading order", () => {
+    const texts = [text("102", 80, 20), text("101", 20, 80), text("103", 80, 80)];
+    expect(suggestZoneLabels(1, [room], texts)[0].number).toBe("101");
+  });
+
+  test("ignores areas and dimensions printed in the room", () => {
+    const texts = [text("12.5 m²", 50, 50, 20), text("240 SF", 50, 40, 20), text("3'-6\"", 50, 30, 20), text("Store", 50, 20)];
+    expect(suggestZoneLabels(1, [room], texts)).toEqual([{ page: 1, zoneId: "room", name: "Store" }]);
+  });
+
+  test("leaves text in a hole to whatever fills the hole", () => {
+    const holed = createZone([[rect(0, 0, 100, 100), rect(40, 40, 20, 20)]], { id: "holed" });
+    expect(suggestZoneLabels(1, [holed], [text("Shaft", 50, 50)])).toEqual([]);
+  });
+
+  test("only suggests what differs from the zone's current labels", () => {
+    const named = createZone([[rect(0, 0, 100, 100)]], { id: "named", name: "Office", number: "7" });
+    expect(suggestZoneLabels(1, [named], [text("Office", 50, 50), text("7", 50, 30)])).toEqual([]);
+    expect(suggestZoneLabels(1, [named], [text("Office", 50, 50), text("8", 50, 30)])).toEqual([
+      { page: 1, zoneId: "named", number: "8" },
+    ]);
+  });
+
+  test("trims long names", () => {
+    const [suggestion] = suggestZoneLabels(1, [room], [text("Note ".repeat(30), 50, 50)]);
+    expect(suggestion.name).toHaveLength(MAX_NAME_LENGTH);
+  });
+
+  test("skips zones with no text in them", () => {
+    expect(suggestZoneLabels(1, [room], [text("Kitchen", 500, 500)])).toEqual([]);
+  });
+});
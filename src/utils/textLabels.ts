@@ -0,0 +1,95 @@
+import { Point, Zone } from "../types/zones";
+import { pointInPolygons } from "./geometry";
+import { MAX_NAME_LENGTH } from "./zones";
+
+// A run of text on the page, reduced to its centre in PDF user space.
+export interface PageText {
+  str: string;
+  center: Point;
+  // Font height in PDF units; the biggest text in a room is usually its name.
+  height: number;
+}
+
+export interface LabelSuggestion {
+  page: number;
+  zoneId: string;
+  // Only set when the text differs from what the zone already has.
+  name?: string;
+  number?: string;
+}
+
+// The part of a pdf.js TextItem the labeller reads.
+interface TextItemLike {
+  str?: string;
+  transform?: number[];
+  width?: number;
+  height?: number;
+}
+
+// "101", "BR-02", "1.04", "G12A": a short prefix, digits and an optional suffix letter.
+const ROOM_NUMBER = /^[A-Z]{0,4}[-.]?\d+(?:[-.]\d+)?[A-Z]?$/i;
+// Areas and dimensions printed in the room ("12.5 m²", "3'-6\"", "240 SF") aren't labels.
+const MEASUREMENT = /\d\s*(m²|m2|sq\.?\s?(m|ft)|ft²|sf|mm|cm|m|'|"|′|″)(\s|$|-)/i;
+
+/**
+ * Reads the text runs of a pdf.js page. pdf.js already reports each run's
+ * transform in user space, so the centre only needs the run's own width and
+ * height along its baseline direction, which keeps rotated labels right.
+ */
+export const extractPageText = async (page: any): Promise<PageText[]> => {
+  const { items } = await page.getTextContent();
+  return (items as TextItemLike[]).flatMap((item) => {
+    const str = item.str?.replace(/\s+/g, " ").trim();
+    if (!str || !item.transform) return [];
+    const [a, b, , , e, f] = item.transform;
+    const angle = Math.atan2(b, a);
+    const width = item.width ?? 0;
+    const height = item.height || Math.hypot(a, b);
+    const center = {
+      x: e + (width / 2) * Math.cos(angle) - (height / 2) * Math.sin(angle),
+      y: f + (width / 2) * Math.sin(angle) + (height / 2) * Math.cos(angle),
+    };
+    return [{ str, center, height }];
+  });
+};
+
+// Runs on one baseline are joined left to right, so "Living" + "Room" reads as one name.
+const joinLines = (texts: PageText[]) => {
+  const sorted = [...texts].sort((a, b) => b.center.y - a.center.y || a.center.x - b.center.x);
+  const lines: PageText[][] = [];
+  sorted.forEach((text) => {
+    const line = lines.find((candidate) => Math.abs(candidate[0].center.y - text.center.y) < candidate[0].height / 2);
+    if (line) line.push(text);
+    else lines.push([text]);
+  });
+  return lines.map((line) => ({
+    str: line
+      .sort((a, b) => a.center.x - b.center.x)
+      .map((text) => text.str)
+      .join(" "),
+    height: Math.max(...line.map((text) => text.height)),
+  }));
+};
+
+/**
+ * Proposes a name and number for each zone from the text printed inside it.
+ * Text in a hole belongs to whatever fills the hole, not to the zone. The
+ * number is the first room-number-like run in reading order; the name is the
+ * largest remaining line. Zones whose labels already match are left out.
+ */
+export const suggestZoneLabels = (page: number, zones: Zone[], texts: PageText[]): LabelSuggestion[] =>
+  zones.flatMap((zone) => {
+    const inside = texts.filter((text) => pointInPolygons(text.center, zone.polygons) && !MEASUREMENT.test(`${text.str} `));
+    const numbers = inside.filter((text) => ROOM_NUMBER.test(text.str));
+    const names = joinLines(inside.filter((text) => !ROOM_NUMBER.test(text.str) && /\p{L}/u.test(text.str)));
+    const number = numbers.sort((a, b) => b.center.y - a.center.y || a.center.x - b.center.x)[0]?.str;
+    const name = names.reduce<{ str: string; height: number } | undefined>(
+      (best, line) => (!best || line.height > best.height ? line : best),
+      undefined
+    )?.str.slice(0, MAX_NAME_LENGTH);
+
+    const suggestion: LabelSuggestion = { page, zoneId: zone.id };
+    if (name && name !== zone.name) suggestion.name = name;
+    if (number && number !== (zone.number ?? "")) suggestion.number = number;
+    return suggestion.name !== undefined || suggestion.number !== undefined ? [suggestion] : [];
+  });
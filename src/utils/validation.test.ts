@@ -0,0 +1,174 @@
+import { Point, Zone } from "../types/zones";
+import { polygonArea } from "./geometry";
+import { fixIssue, GeometryIssue, validatePageZones, validateZones } from "./validation";
+import { createZone } from "./zones";
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+const zone = (ring: Point[], name = "") => createZone([[ring]], { name });
+
+const kinds = (issues: GeometryIssue[]) => issues.map((issue) => issue.kind);
+
+const zoneArea = (z: Zone) => z.polygons.reduce((sum, rings) => sum + polygonArea(rings), 0);
+
+describe("validatePageZones", () => {
+  test("finds nothing wrong with separate, well-formed zones", () => {
+    expect(validatePageZones(1, [zone(rect(0, 0, 100, 100)), zone(rect(200, 0, 50, 50))])).toEqual([]);
+  });
+
+  test("treats zones that share an edge as neither overlapping nor gapped", () => {
+    expect(validatePageZones(1, [zone(rect(0, 0, 100, 100)), zone(rect(100, 0, 100, 100))])).toEqual([]);
+  });
+
+  test("reports a bow-tie as a crossing and nothing else", () => {
+    const bowTie = zone([
+      { x: 0, y: 0 },
+      { x: 100, y: 100 },
+      { x: 100, y: 0 },
+      { x: 0, y: 100 },
+    ]);
+    const issues = validatePageZones(1, [bowTie]);
+    expect(kinds(issues)).toEqual(["kink"]);
+    expect(issues[0].location).toEqual({ x: 50, y: 50 });
+  });
+
+  test("reports rings with too few vertices or next to no area as tiny", () => {
+    const twoPoints = zone([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+    ]);
+    expect(kinds(validatePageZones(1, [twoPoints]))).toEqual(["tiny"]);
+    expect(kinds(validatePageZones(1, [zone(rect(0, 0, 1, 1))]))).toEqual(["tiny"]);
+  });
+
+  test("reports long thin zones as slivers", () => {
+    const issues = validatePageZones(1, [zone(rect(0, 0, 300, 1.5), "Wall")]);
+    expect(kinds(issues)).toEqual(["sliver"]);
+    expect(issues[0].message).toMatch(/^Wall: only about 1\.5 pt wide/);
+  });
+
+  test("reports repeated vertices without calling them crossings", () => {
+    const [a, b, c, d] = rect(0, 0, 100, 100);
+    const issues = validatePageZones(1, [zone([a, b, { x: b.x + 0.05, y: b.y }, c, d])]);
+    expect(kinds(issues)).toEqual(["duplicate-points"]);
+    expect(issues[0].location).toEqual(b);
+  });
+
+  test("reports overlapping neighbors with the overlap's area", () => {
+    const a = zone(rect(0, 0, 100, 100), "A");
+    const b = zone(rect(90, 0, 100, 100), "B");
+    const issues = validatePageZones(1, [a, b]);
+    expect(kinds(issues)).toEqual(["overlap"]);
+    expect(issues[0].zoneIds).toEqual([b.id, a.id]);
+    expect(issues[0].message).toBe("B overlaps A by 1000.00 pt²");
+  });
+
+  test("reports a hairline gap once, from the first zone's side", () => {
+    const a = zone(rect(0, 0, 100, 100), "A");
+    const b = zone(rect(101, 0, 100, 100), "B");
+    const issues = validatePageZones(1, [a, b]);
+    expect(kinds(issues)).toEqual(["gap"]);
+    expect(issues[0].zoneIds).toEqual([a.id, b.id]);
+    expect(issues[0].message).toBe("A stops 2 vertex(es) short of B");
+  });
+
+  test("ignores gaps wider than the tolerance", () => {
+    expect(validatePageZones(1, [zone(rect(0, 0, 100, 100)), zone(rect(110, 0, 100, 100))])).toEqual([]);
+  });
+});
+
+describe("validateZones", () => {
+  test("checks every page in order", () => {
+    const issues = validateZones({ 3: [zone(rect(0, 0, 1, 1))], 1: [zone(rect(0, 0, 300, 1.5))] });
+    expect(issues.map((issue) => [issue.page, issue.kind])).toEqual([
+      [1, "sliver"],
+      [3, "tiny"],
+    ]);
+  });
+});
+
+describe("fixIssue", () => {
+  const firstIssue = (zones: Zone[]) => validatePageZones(1, zones)[0];
+
+  test("removes duplicate vertices", () => {
+    const [a, b, c, d] = rect(0, 0, 100, 100);
+    const zones = [zone([a, b, { x: b.x + 0.05, y: b.y }, c, d])];
+    const fixed = fixIssue(zones, firstIssue(zones))!;
+    expect(fixed[0].polygons[0][0]).toHaveLength(4);
+    expect(validatePageZones(1, fixed)).toEqual([]);
+  });
+
+  test("splits a bow-tie into its two triangles", () => {
+    const zones = [
+      zone([
+        { x: 0, y: 0 },
+        { x: 100, y: 100 },
+        { x: 100, y: 0 },
+        { x: 0, y: 100 },
+      ]),
+    ];
+    const fixed = fixIssue(zones, firstIssue(zones))!;
+    expect(fixed[0].polygons).toHaveLength(2);
+    expect(zoneArea(fixed[0])).toBeCloseTo(5000);
+  });
+
+  test("deletes a tiny zone", () => {
+    const keep = zone(rect(50, 50, 10, 10));
+    const zones = [zone(rect(0, 0, 1, 1)), keep];
+    expect(fixIssue(zones, firstIssue(zones))).toEqual([keep]);
+  });
+
+  test("trims an overlap from the zone that overlaps", () => {
+    const a = zone(rect(0, 0, 100, 100));
+    const b = zone(rect(90, 0, 100, 100));
+    const fixed = fixIssue([a, b], firstIssue([a, b]))!;
+    expect(fixed[0]).toBe(a);
+    expect(zoneArea(fixed[1])).toBeCloseTo(9000);
+    expect(validatePageZones(1, fixed)).toEqual([]);
+  });
+
+  test("closes a gap by moving the short vertices onto the neighbor's edge", () => {
+    const a = zone(rect(0, 0, 100, 100));
+    const b = zone(rect(101, 0, 100, 100));
+    const fixed = fixIssue([a, b], firstIssue([a, b]))!;
+    expect(zoneArea(fixed[0])).toBeCloseTo(10100);
+    expect(zoneArea(fixed[1])).toBeCloseTo(10000);
+    expect(validatePageZones(1, fixed)).toEqual([]);
+  });
+
+  test("carves the neighbor when closing a gap would overlap it", () => {
+    // B's left edge leans in, so snapping A's corner onto it drags A's edge across B.
+    const a = zone(rect(0, 0, 100, 100));
+    const b = zone([
+      { x: 102, y: 0 },
+      { x: 200, y: 0 },
+      { x: 200, y: 100 },
+      { x: 101, y: 100 },
+      { x: 100.5, y: 50 },
+    ]);
+    const issue = firstIssue([a, b]);
+    expect(issue.kind).toBe("gap");
+    const fixed = fixIssue([a, b], issue)!;
+    expect(zoneArea(fixed[1])).toBeLessThan(zoneArea(b));
+    expect(kinds(validatePageZones(1, fixed))).not.toContain("overlap");
+  });
+
+  test("re-checks a gap against the zones as they are now", () => {
+    const a = zone(rect(0, 0, 100, 100));
+    const b = zone(rect(101, 0, 100, 100));
+    const issue = firstIssue([a, b]);
+    const moved = { ...a, polygons: [[rect(-20, 0, 100, 100)]] };
+    expect(fixIssue([moved, b], issue)).toBeNull();
+  });
+
+  test("has no fix for slivers or for zones that are gone", () => {
+    const sliver = [zone(rect(0, 0, 300, 1.5))];
+    expect(fixIssue(sliver, firstIssue(sliver))).toBeNull();
+    expect(fixIssue([], firstIssue(sliver))).toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+import { bbox, booleanIntersects, difference, featureCollection, intersect, kinks, unkinkPolygon } from "@turf/turf";
+import { MultiPolygon, Polygon } from "geojson";
+import { Point, PolygonRings, Zone, ZonesByPage } from "../types/zones";
+import {
+  distance,
+  fromTurfGeometry,
+  largestPart,
+  openRing,
+  pointInPolygons,
+  polygonArea,
+  ringCentroid,
+  ringLength,
+  toTurfGeometry,
+  toTurfPolygon,
+  validatePolygons,
+} from "./geometry";
+import { carveFromOthers } from "./booleanOps";
+import { closestPointOnSegment, zoneSegments } from "./snapping";
+import { moveVertex, VertexRef } from "./vertexEditing";
+import { withGeometry, zoneLabel } from "./zones";
+
+export type IssueKind = "kink" | "tiny" | "sliver" | "duplicate-points" | "gap" | "overlap";
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+  kink: "Crosses itself",
+  tiny: "Near-zero area",
+  sliver: "Sliver",
+  "duplicate-points": "Duplicate points",
+  gap: "Gap to neighbor",
+  overlap: "Overlaps neighbor",
+};
+
+export interface GeometryIssue {
+  // Stable across re-runs, so a list can keep its selection.
+  key: string;
+  kind: IssueKind;
+  page: number;
+  // The zone to show first, then any neighbor involved.
+  zoneIds: string[];
+  location: Point;
+  message: string;
+}
+
+// Tolerances in PDF points (1/72 in), well below what a click can place on purpose.
+export const DUPLICATE_TOLERANCE = 0.1;
+const MIN_ZONE_AREA = 4;
+const MIN_MEAN_WIDTH = 2;
+// 4πA/P² is 1 for a circle and about 0.05 for a 60:1 rectangle.
+const MIN_THINNESS = 0.05;
+const GAP_TOLERANCE = 3;
+const MIN_OVERLAP_AREA = 0.01;
+
+type TurfShape = ReturnType<typeof toTurfGeometry>;
+
+const zoneIssue = (page: number, zone: Zone, kind: IssueKind, message: string, location?: Point): GeometryIssue => ({
+  key: `${kind}:${zone.id}`,
+  kind,
+  page,
+  zoneIds: [zone.id],
+  location: location ?? ringCentroid(largestPart(zone.polygons)[0]),
+  message: `${zoneLabel(zone)}: ${message}`,
+});
+
+const dedupeRing = (ring: Point[]) =>
+  openRing(ring).filter((p, i, open) => distance(p, open[(i + 1) % open.length]) > DUPLICATE_TOLERANCE);
+
+const duplicatePoints = (zone: Zone) =>
+  zone.polygons.flat().flatMap((ring) => {
+    const open = openRing(ring);
+    return open.filter((p, i) => distance(p, open[(i + 1) % open.length]) <= DUPLICATE_TOLERANCE);
+  });
+
+// Repeated vertices read as crossings to turf, so they're dropped before looking for real ones.
+const kinkPoints = (zone: Zone) =>
+  zone.polygons.flatMap((rings) => kinks(toTurfPolygon(rings.map(dedupeRing))).features.map(({ geometry }) => ({ x: geometry.coordinates[0], y: geometry.coordinates[1] })));
+
+const checkZone = (page: number, zone: Zone): GeometryIssue[] => {
+  if (zone.polygons.flat().some((ring) => openRing(ring).length < 3)) {
+    return [zoneIssue(page, zone, "tiny", "a ring has fewer than 3 vertices")];
+  }
+  const issues: GeometryIssue[] = [];
+  const duplicates = duplicatePoints(zone);
+  if (duplicates.length) {
+    issues.push(zoneIssue(page, zone, "duplicate-points", `${duplicates.length} repeated vertex(es)`, duplicates[0]));
+  }
+  const crossings = kinkPoints(zone);
+  // The area of a ring that crosses itself is meaningless until it's untangled.
+  if (crossings.length) return [...issues, zoneIssue(page, zone, "kink", `edges cross at ${crossings.length} point(s)`, crossings[0])];
+
+  const area = zone.polygons.reduce((sum, rings) => sum + polygonArea(rings), 0);
+  const perimeter = zone.polygons.flat().reduce((sum, ring) => sum + ringLength(openRing(ring)), 0);
+  if (area < MIN_ZONE_AREA) {
+    issues.push(zoneIssue(page, zone, "tiny", `area of ${area.toFixed(2)} pt² is too small to be a room`));
+  } else if (perimeter > 0 && ((4 * Math.PI * area) / perimeter ** 2 < MIN_THINNESS || (2 * area) / perimeter < MIN_MEAN_WIDTH)) {
+    issues.push(zoneIssue(page, zone, "sliver", `only about ${((2 * area) / perimeter).toFixed(1)} pt wide on average`));
+  }
+  return issues;
+};
+
+const boxesNear = (a: number[], b: number[], margin: number) =>
+  a[0] - margin <= b[2] && b[0] - margin <= a[2] && a[1] - margin <= b[3] && b[1] - margin <= a[3];
+
+// Vertices of `zone` that stop just short of `neighbor`'s edges, with where they'd land on it.
+const nearMisses = (zone: Zone, neighbor: Zone): { ref: VertexRef; point: Point }[] => {
+  const edges = zoneSegments([neighbor]);
+  return zone.polygons.flatMap((rings, polygonIndex) =>
+    rings.flatMap((ring, ringIndex) =>
+      ring.flatMap((vertex, vertexIndex) => {
+        if (pointInPolygons(vertex, neighbor.polygons)) return [];
+        const closest = edges
+          .map((edge) => closestPointOnSegment(vertex, edge))
+          .reduce<Point | null>((best, p) => (!best || distance(vertex, p) < distance(vertex, best) ? p : best), null);
+        if (!closest) return [];
+        const gap = distance(vertex, closest);
+        return gap > DUPLICATE_TOLERANCE && gap <= GAP_TOLERANCE ? [{ ref: { polygonIndex, ringIndex, vertexIndex }, point: closest }] : [];
+      })
+    )
+  );
+};
+
+const checkPair = (page: number, a: Zone, b: Zone, shapeA: TurfShape, shapeB: TurfShape): GeometryIssue[] => {
+  const issues: GeometryIssue[] = [];
+  if (booleanIntersects(shapeA, shapeB)) {
+    const overlap = fromTurfGeometry(intersect(featureCollection<Polygon | MultiPolygon>([shapeA, shapeB]))?.geometry);
+    const area = overlap.reduce((sum, rings) => sum + polygonArea(rings), 0);
+    if (area > MIN_OVERLAP_AREA) {
+      issues.push({
+        key: `overlap:${a.id}:${b.id}`,
+        kind: "overlap",
+        page,
+        zoneIds: [b.id, a.id],
+        location: ringCentroid(overlap[0][0]),
+        message: `${zoneLabel(b)} overlaps ${zoneLabel(a)} by ${area.toFixed(2)} pt²`,
+      });
+    }
+  }
+  // Only one side of a gap is reported, since closing it from both sides would make them overlap.
+  const forward = nearMisses(a, b);
+  const [zone, neighbor, snaps] = forward.length ? [a, b, forward] : [b, a, nearMisses(b, a)];
+  if (snaps.length) {
+    issues.push({
+      key: `gap:${zone.id}:${neighbor.id}`,
+      kind: "gap",
+      page,
+      zoneIds: [zone.id, neighbor.id],
+      location: snaps[0].point,
+      message: `${zoneLabel(zone)} stops ${snaps.length} vertex(es) short of ${zoneLabel(neighbor)}`,
+    });
+  }
+  return issues;
+};
+
+/**
+ * Checks one page's zones for geometry that breaks area totals or turf
+ * operations: self-intersections, near-zero or sliver areas, repeated
+ * vertices, and neighbors that overlap or leave a hairline gap.
+ */
+export const validatePageZones = (page: number, zones: Zone[]): GeometryIssue[] => {
+  const issues = zones.flatMap((zone) => checkZone(page, zone));
+  // Zones with crossing edges or next to no area are skipped, since turf can't intersect them reliably.
+  const usable = zones.filter(
+    (zone) => !issues.some((issue) => (issue.kind === "kink" || issue.kind === "tiny") && issue.zoneIds[0] === zone.id)
+  );
+  const shapes = usable.map((zone) => toTurfGeometry(zone.polygons));
+  const boxes = shapes.map((shape) => bbox(shape));
+  usable.forEach((a, i) =>
+    usable.slice(i + 1).forEach((b, offset) => {
+      const j = i + 1 + offset;
+      if (boxesNear(boxes[i], boxes[j], GAP_TOLERANCE)) issues.push(...checkPair(page, a, b, shapes[i], shapes[j]));
+    })
+  );
+  return issues;
+};
+
+export const validateZones = (zonesByPage: ZonesByPage): GeometryIssue[] =>
+  Object.keys(zonesByPage)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap((page) => validatePageZones(page, zonesByPage[page]));
+
+export const canFixIssue = (issue: GeometryIssue) => issue.kind !== "sliver";
+
+const FIX_LABELS: Record<IssueKind, string> = {
+  kink: "Split at crossings",
+  tiny: "Delete zone",
+  sliver: "",
+  "duplicate-points": "Remove duplicates",
+  gap: "Close gap",
+  overlap: "Trim overlap",
+};
+
+export const fixLabel = (issue: GeometryIssue) => FIX_LABELS[issue.kind];
+
+const replaceGeometry = (zones: Zone[], id: string, polygons: PolygonRings[]) =>
+  validatePolygons(polygons) ? null : zones.map((zone) => (zone.id === id ? withGeometry(zone, polygons) : zone));
+
+// Snapping can push a vertex past the neighbor's edge, so the moved zone is cut out of everything else.
+const closeGap = (zones: Zone[], zone: Zone, neighbor: Zone) => {
+  // The zones may have been edited since the check, so the near misses are found again.
+  const snaps = nearMisses(zone, neighbor);
+  if (!snaps.length) return null;
+  const polygons = snaps.reduce((current, { ref, point }) => moveVertex(current, ref, point), zone.polygons);
+  const moved = replaceGeometry(zones, zone.id, polygons);
+  return moved && carveFromOthers(moved, toTurfGeometry(polygons), [zone.id]).zones;
+};
+
+/**
+ * Applies the one-click fix for an issue to its page's zones. Returns null
+ * when the issue has no safe fix, its zones are gone, or the fixed geometry
+ * would itself be invalid, so the caller never commits a worse state.
+ */
+export const fixIssue = (zones: Zone[], issue: GeometryIssue): Zone[] | null => {
+  const [zone, neighbor] = issue.zoneIds.map((id) => zones.find((candidate) => candidate.id === id));
+  if (!zone) return null;
+  try {
+    switch (issue.kind) {
+      case "duplicate-points":
+        return replaceGeometry(zones, zone.id, zone.polygons.map((rings) => rings.map(dedupeRing)));
+      case "tiny":
+        return zones.filter((candidate) => candidate.id !== zone.id);
+      case "kink": {
+        const parts = zone.polygons.flatMap((rings) =>
+          unkinkPolygon(toTurfPolygon(rings.map(dedupeRing))).features.flatMap((feature) => fromTurfGeometry(feature.geometry))
+        );
+        return replaceGeometry(zones, zone.id, parts);
+      }
+      case "overlap": {
+        if (!neighbor) return null;
+        const trimmed = difference(featureCollection<Polygon | MultiPolygon>([toTurfGeometry(zone.polygons), toTurfGeometry(neighbor.polygons)]));
+        const parts = fromTurfGeometry(trimmed?.geometry).filter((rings) => polygonArea(rings) > MIN_OVERLAP_AREA);
+        return parts.length ? replaceGeometry(zones, zone.id, parts) : null;
+      }
+      case "gap":
+        return neighbor ? closeGap(zones, zone, neighbor) : null;
+      case "sliver":
+        return null;
+    }
+  } catch (err: unknown) {
+    console.error("Geometry fix error:", err);
+    return null;
+  }
+};
@@ -0,0 +1,53 @@
+import { Point, PolygonRings } from "../types/zones";
+import { distance, openRing } from "./geometry";
+
+export interface VertexRef {
+  polygonIndex: number;
+  ringIndex: number;
+  vertexIndex: number;
+}
+
+// Editing works on open rings so the first vertex isn't duplicated at the end.
+export const editablePolygons = (polygons: PolygonRings[]): PolygonRings[] =>
+  polygons.map((rings) => rings.map(openRing));
+
+export const midpoints = (ring: Point[]): Point[] =>
+  ring.map((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  });
+
+export const findVertex = (polygons: PolygonRings[], point: Point, tolerance: number): VertexRef | null => {
+  let best: VertexRef | null = null;
+  let bestDist = tolerance;
+  polygons.forEach((rings, polygonIndex) =>
+    rings.forEach((ring, ringIndex) =>
+      ring.forEach((vertex, vertexIndex) => {
+        const d = distance(point, vertex);
+        if (d < bestDist) {
+          bestDist = d;
+          best = { polygonIndex, ringIndex, vertexIndex };
+        }
+      })
+    )
+  );
+  return best;
+};
+
+// The returned ref is the edge start; a vertex inserted there goes at vertexIndex + 1.
+export const findMidpoint = (polygons: PolygonRings[], point: Point, tolerance: number): VertexRef | null =>
+  findVertex(polygons.map((rings) => rings.map(midpoints)), point, tolerance);
+
+const updateRing = (polygons: PolygonRings[], ref: VertexRef, update: (ring: Point[]) => Point[]): PolygonRings[] =>
+  polygons.map((rings, p) =>
+    p === ref.polygonIndex ? rings.map((ring, r) => (r === ref.ringIndex ? update(ring) : ring)) : rings
+  );
+
+export const moveVertex = (polygons: PolygonRings[], ref: VertexRef, point: Point): PolygonRings[] =>
+  updateRing(polygons, ref, (ring) => ring.map((p, v) => (v === ref.vertexIndex ? point : p)));
+
+export const insertVertex = (polygons: PolygonRings[], ref: VertexRef, point: Point): PolygonRings[] =>
+  updateRing(polygons, ref, (ring) => [...ring.slice(0, ref.vertexIndex + 1), point, ...ring.slice(ref.vertexIndex + 1)]);
+
+export const deleteVertex = (polygons: PolygonRings[], ref: VertexRef): PolygonRings[] =>
+  updateRing(polygons, ref, (ring) => ring.filter((_, v) => v !== ref.vertexIndex));
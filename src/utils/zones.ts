@@ -0,0 +1,79 @@
+import { Point, PolygonRings, Zone, ZoneCategory, ZonesByPage } from "../types/zones";
+import { pointInPolygons } from "./geometry";
+
+export const ZONE_CATEGORIES: { value: ZoneCategory; label: string; color: string }[] = [
+  { value: "unassigned", label: "Unassigned", color: "#4791aa" },
+  { value: "office", label: "Office", color: "#3f7fd9" },
+  { value: "circulation", label: "Circulation", color: "#e0a526" },
+  { value: "wet-area", label: "Wet area", color: "#26b5c9" },
+  { value: "storage", label: "Storage", color: "#8d6e63" },
+  { value: "plant", label: "Plant / services", color: "#9c5ac7" },
+];
+
+export const isZoneCategory = (value: unknown): value is ZoneCategory =>
+  ZONE_CATEGORIES.some((category) => category.value === value);
+
+export const categoryLabel = (category: ZoneCategory) =>
+  ZONE_CATEGORIES.find((c) => c.value === category)?.label ?? category;
+
+export const zoneColor = (zone: Zone) =>
+  zone.color || ZONE_CATEGORIES.find((c) => c.value === zone.category)?.color || ZONE_CATEGORIES[0].color;
+
+// Number and name as printed on a plan, e.g. "BR-02 Kitchen"; empty when the zone has neither.
+export const zoneTitle = (zone: Zone) => [zone.number, zone.name].filter(Boolean).join(" ");
+
+// Longest zone name taken from text in the PDF, which can hold whole paragraphs.
+export const MAX_NAME_LENGTH = 60;
+
+export const zoneLabel = (zone: Zone) => zoneTitle(zone) || "unnamed zone";
+
+export const hexToRgba = (hex: string, alpha: number) => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+export const createZoneId = () => `zone-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Next free "Zone N" number across every page, so default names stay unique.
+export const nextZoneName = (zonesByPage: ZonesByPage) => {
+  const numbers = Object.values(zonesByPage)
+    .flat()
+    .map((zone) => /^Zone (\d+)$/.exec(zone.name)?.[1])
+    .filter((n): n is string => !!n)
+    .map(Number);
+  return `Zone ${numbers.length ? Math.max(...numbers) + 1 : 1}`;
+};
+
+export const createZone = (polygons: PolygonRings[], fields: Partial<Omit<Zone, "polygons">> = {}): Zone => ({
+  id: createZoneId(),
+  name: "",
+  category: "unassigned",
+  notes: "",
+  ...fields,
+  polygons,
+});
+
+// Any geometry edit other than a shape resize turns a shape zone into a plain polygon.
+export const withGeometry = ({ shape, ...zone }: Zone, polygons: PolygonRings[]): Zone => ({ ...zone, polygons });
+
+/** Topmost zone under a point. A hole isn't inside its zone, so a click there reaches whatever lies beneath. */
+export const zoneAtPoint = (zones: Zone[], point: Point) =>
+  [...zones].reverse().find((zone) => pointInPolygons(point, zone.polygons));
+
+// Case-insensitive name or number match across every page, in page order.
+export const searchZones = (zonesByPage: ZonesByPage, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return Object.keys(zonesByPage)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap((page) => zonesByPage[page].filter((zone) => zoneLabel(zone).toLowerCase().includes(needle)).map((zone) => ({ page, zone })));
+};
+
+export const findZone = (zonesByPage: ZonesByPage, id: string): { page: number; zone: Zone } | null => {
+  for (const page of Object.keys(zonesByPage).map(Number)) {
+    const zone = zonesByPage[page].find((z) => z.id === id);
+    if (zone) return { page, zone };
+  }
+  return null;
+};